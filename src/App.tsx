@@ -1,10 +1,25 @@
 import "./App.css";
 import KMRLDashboard from "./KMRLDashboard";
+import SignInScreen from "@/components/SignInScreen";
+import { useAuth } from "@/hooks/useAuth";
 
 function App() {
+  const { provider, user, loading, error, signIn, signOut } = useAuth();
+
+  if (!user) {
+    return (
+      <SignInScreen
+        provider={provider}
+        loading={loading}
+        error={error}
+        onSignIn={signIn}
+      />
+    );
+  }
+
   return (
     <>
-      <KMRLDashboard />
+      <KMRLDashboard key={user.id} user={user} onSignOut={signOut} />
     </>
   );
 }
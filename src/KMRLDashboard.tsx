@@ -1,5 +1,119 @@
-import { useMemo, useState } from "react";
+import { Fragment, useCallback, useMemo, useState } from "react";
 import MapBox from "./MapBox";
+import MaximoImportCard from "@/components/MaximoImportCard";
+import TrainsetDrawer from "@/components/TrainsetDrawer";
+import ScoreBreakdownPanel from "@/components/ScoreBreakdownPanel";
+import FitnessImportCard from "@/components/FitnessImportCard";
+import BrandingImportCard from "@/components/BrandingImportCard";
+import OverrideForm from "@/components/OverrideForm";
+import AuditLog from "@/components/AuditLog";
+import ScenarioPanel from "@/components/ScenarioPanel";
+import KpiChart from "@/components/KpiChart";
+import ActualsImportCard from "@/components/ActualsImportCard";
+import ConstraintHealthPanel from "@/components/ConstraintHealthPanel";
+import FinaliseGate from "@/components/FinaliseGate";
+import AlertList from "@/components/AlertList";
+import AlertRulesEditor from "@/components/AlertRulesEditor";
+import UnsFeedCard from "@/components/UnsFeedCard";
+import SyncStatusRow from "@/components/SyncStatusRow";
+import DepotLayout from "@/components/DepotLayout";
+import ShuntingSteps from "@/components/ShuntingSteps";
+import TrainMapDetails from "@/components/TrainMapDetails";
+import SchematicMap from "@/components/SchematicMap";
+import MapSettingsForm from "@/components/MapSettingsForm";
+import HorizonGrid from "@/components/HorizonGrid";
+import MileageChart from "@/components/MileageChart";
+import JobCardsBadge from "@/components/JobCardsBadge";
+import PlanHistory from "@/components/PlanHistory";
+import WeightsPanel from "@/components/WeightsPanel";
+import WeightSensitivity from "@/components/WeightSensitivity";
+import InductionSheet from "@/components/InductionSheet";
+import { FITNESS_DEPARTMENTS, daysLeft } from "@/lib/fitness";
+import {
+  activeCampaignCount,
+  activeCampaigns,
+  brandingCompliance,
+  brandingNeed,
+  campaignProgress,
+} from "@/lib/branding";
+import {
+  DEFAULT_SHIFTS,
+  scheduleCleaning,
+  type CleaningShift,
+} from "@/lib/cleaning";
+import { newTrainset, nextTrainsetId } from "@/lib/fleetStore";
+import {
+  blockLabel,
+  defaultWeights,
+  describeBlocked,
+  rankTrains,
+  scoreTrain,
+} from "@/lib/scoring";
+import {
+  DEFAULT_SHUNT_BUDGET,
+  optimiseInduction,
+  type OptimiserInput,
+} from "@/lib/optimiser";
+import { describeOverride } from "@/lib/overrides";
+import { useFleet } from "@/hooks/useFleet";
+import { useOverrides } from "@/hooks/useOverrides";
+import { useScenarios } from "@/hooks/useScenarios";
+import { useKpis } from "@/hooks/useKpis";
+import { useAlerts } from "@/hooks/useAlerts";
+import { useUns } from "@/hooks/useUns";
+import { useSync } from "@/hooks/useSync";
+import { useTrainPositions } from "@/hooks/useTrainPositions";
+import { useMaintenance } from "@/hooks/useMaintenance";
+import { usePlans } from "@/hooks/usePlans";
+import { useWeightProfiles } from "@/hooks/useWeightProfiles";
+import { useOptimiserRun } from "@/hooks/useOptimiserRun";
+import { usePlanningNight } from "@/hooks/usePlanningNight";
+import { unsUrl as configuredUnsUrl } from "@/lib/uns";
+import { USER_ROLES, can, deniedReason } from "@/lib/auth";
+import { scoringWeights } from "@/lib/weights";
+import { planMetrics } from "@/lib/scenarios";
+import { constraintHealth } from "@/lib/health";
+import { DEPOT_LAYOUT, exitOrder, moveToBay } from "@/lib/depot";
+import { isSilenced } from "@/lib/alerts";
+import { clockTime, planShunting } from "@/lib/shunting";
+import { HORIZON_NIGHTS, planHorizon, windowCovers } from "@/lib/horizon";
+import {
+  DEFAULT_SERVICE_INTERVAL_KM,
+  kmSinceService,
+  mileageModel,
+} from "@/lib/mileage";
+import {
+  PLAN_ROLES,
+  PLAN_STATUS_LABELS,
+  freezePlan,
+  planDiff,
+  planStatus,
+  signPlan,
+} from "@/lib/plans";
+import {
+  downloadText,
+  exportFileName,
+  planCsv,
+  planJson,
+  type PlanExport,
+} from "@/lib/planExport";
+import {
+  MAP_PROVIDERS,
+  loadMapSettings,
+  mapSettingsProblem,
+  resetMapSettings,
+  saveMapSettings,
+  type MapSettings,
+} from "@/lib/mapConfig";
+import type {
+  PlanRole,
+  PlanVersion,
+  RankedTrain,
+  Scenario,
+  Trainset,
+  User,
+  Weights,
+} from "@/lib/types";
 import {
   Card,
   CardHeader,
@@ -12,12 +126,6 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-// import {
-//   Tooltip,
-//   TooltipTrigger,
-//   TooltipContent,
-//   TooltipProvider,
-// } from "@/components/ui/tooltip";
 import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -28,293 +136,496 @@ import {
   Gauge,
   Map,
   Play,
-  RefreshCcw,
+  Square,
   ShieldCheck,
   // TrafficCone,
   Upload,
   Zap,
   BarChart3,
+  ChevronRight,
   Sun,
   Moon,
   ListOrdered,
   Wrench,
+  Warehouse,
+  Settings,
   Image as ImageIcon,
   MapIcon,
+  Plus,
+  CalendarRange,
+  Route,
+  FileDown,
+  Printer,
+  LogOut,
   // Info,
 } from "lucide-react";
-import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip as RTooltip,
-  Legend,
-  ResponsiveContainer,
-} from "recharts";
 
 // -------------------------------------------------------------
-// Types
+// Main Component
 // -------------------------------------------------------------
 
-type Trainset = {
-  id: string; // e.g., KMRL-TS-01
-  carCount: number; // 4
-  mileageKm: number; // cumulative
-  lastServiceKm: number;
-  fitness: {
-    rollingStockValidTill: string; // ISO date
-    signallingValidTill: string;
-    telecomValidTill: string;
-  };
-  jobCardsOpen: number; // from Maximo
-  branding: {
-    campaign: string | null;
-    hoursCommitted: number; // SLA hours / week
-    hoursDelivered: number; // achieved
-  };
-  cleaningDue: boolean;
-  stabledAt: "MAIN_DEPOT_A" | "MAIN_DEPOT_B" | "SATELLITE";
-  bay: string; // geometric position label
-  status: "Ready" | "Standby" | "IBL";
+type Props = {
+  user: User; // signed in; controls are gated on their role
+  onSignOut: () => void;
 };
 
-type Weights = {
-  fitness: number;
-  jobs: number;
-  mileage: number;
-  branding: number;
-  cleaning: number;
-  stabling: number;
-};
+export default function KMRLDashboard({ user, onSignOut }: Props) {
+  const mayEdit = can(user, "data.edit");
+  const mayTune = can(user, "plan.tune");
+  const mayWhatIf = can(user, "plan.whatIf");
+  const mayFinalise = can(user, "plan.finalise");
+  const mayOverride = can(user, "plan.override");
 
-type RankedTrain = Trainset & {
-  rank: number;
-  score: number; // can be -Infinity for blocked
-  blocked: boolean;
-  displayScore: string;
-};
+  const {
+    trains: fleet,
+    loading: fleetLoading,
+    error: fleetError,
+    commitFleet,
+    upsertTrainset,
+    applyTrainsetUpdates,
+    retireTrainset,
+  } = useFleet();
+  const trains = useMemo(() => fleet.filter((t) => !t.retiredAt), [fleet]);
+  // Live certificate and odometer updates; ranking recomputes as they land
+  const unsUrl = configuredUnsUrl();
+  const uns = useUns(unsUrl, trains, applyTrainsetUpdates);
+  // Batch pulls behind the Live Streams cards
+  const sync = useSync(fleet, applyTrainsetUpdates);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{
+    t: Trainset;
+    isNew: boolean;
+  } | null>(null);
+  const [weights, setWeights] = useState<Weights>(defaultWeights);
+  const [nightMode, setNightMode] = useState(true);
+  const [serviceDemand, setServiceDemand] = useState(18); // how many rakes at dawn
+  const [cleaningBays, setCleaningBays] = useState(3);
+  const [cleaningShifts, setCleaningShifts] =
+    useState<CleaningShift[]>(DEFAULT_SHIFTS);
+  const [respectBranding, setRespectBranding] = useState(true);
+  const [minimiseShunting, setMinimiseShunting] = useState(false);
+  const [minReserve, setMinReserve] = useState(2); // fit rakes held back as standby
+  const [serviceIntervalKm, setServiceIntervalKm] = useState(
+    DEFAULT_SERVICE_INTERVAL_KM
+  );
+  const night = usePlanningNight();
+  const {
+    overrides,
+    audit,
+    error: overrideError,
+    setOverride,
+    clearOverride,
+    addNote,
+    logAudit,
+  } = useOverrides(night, user);
+  const [note, setNote] = useState("");
+  const {
+    windows: maintenanceWindows,
+    error: maintenanceError,
+    addWindow: addMaintenanceWindow,
+    removeWindow: removeMaintenanceWindow,
+  } = useMaintenance();
 
-// -------------------------------------------------------------
-// Seed demo data
-// -------------------------------------------------------------
+  // Normalised, so scores stay 0..1 and compare across settings
+  const effectiveWeights: Weights = useMemo(
+    () => scoringWeights(weights, respectBranding),
+    [weights, respectBranding]
+  );
+  const {
+    profiles: weightProfiles,
+    error: weightProfilesError,
+    saveProfile: saveWeightProfile,
+    removeProfile: removeWeightProfile,
+  } = useWeightProfiles();
 
-const seed: Trainset[] = Array.from({ length: 25 }).map((_, i) => {
-  const id = `KMRL-TS-${String(i + 1).padStart(2, "0")}`;
-  const mileageKm = 30000 + Math.round(Math.random() * 12000);
-  const lastServiceKm = mileageKm - (1000 + Math.round(Math.random() * 5000));
-  const days = (d: number) =>
-    new Date(Date.now() + d * 24 * 3600 * 1000).toISOString();
-  return {
-    id,
-    carCount: 4,
-    mileageKm,
-    lastServiceKm,
-    fitness: {
-      rollingStockValidTill: days(2 + Math.floor(Math.random() * 20)),
-      signallingValidTill: days(1 + Math.floor(Math.random() * 15)),
-      telecomValidTill: days(-2 + Math.floor(Math.random() * 10)),
-    },
-    jobCardsOpen: Math.floor(Math.random() * 4),
-    branding: {
-      campaign:
-        Math.random() > 0.4
-          ? Math.random() > 0.5
-            ? "Kerala Tourism"
-            : "Bank Promo"
-          : null,
-      hoursCommitted: Math.random() > 0.4 ? 40 : 0,
-      hoursDelivered: Math.random() > 0.4 ? Math.floor(Math.random() * 35) : 0,
-    },
-    cleaningDue: Math.random() > 0.6,
-    stabledAt:
-      Math.random() > 0.7
-        ? "SATELLITE"
-        : Math.random() > 0.5
-        ? "MAIN_DEPOT_B"
-        : "MAIN_DEPOT_A",
-    bay: `B${1 + Math.floor(Math.random() * 12)}`,
-    status: ["Ready", "Standby", "IBL"][
-      Math.floor(Math.random() * 3)
-    ] as Trainset["status"],
-  };
-});
+  // Mileage is balanced against the current fleet spread
+  const mileage = useMemo(
+    () => mileageModel(trains, serviceIntervalKm),
+    [trains, serviceIntervalKm]
+  );
 
-// -------------------------------------------------------------
-// Scoring: fitness is a hard constraint (block if expired), plus soft scores
-// -------------------------------------------------------------
+  // Overnight cleaning: due trains are queued by how much they are wanted for
+  // service once clean; blocked trains don't take a slot.
+  const cleaning = useMemo(() => {
+    const due = trains
+      .filter((t) => t.cleaningDue)
+      .map((t) => ({
+        id: t.id,
+        s: scoreTrain(t, effectiveWeights, mileage, true).total,
+      }))
+      .filter((d) => Number.isFinite(d.s))
+      .sort((a, b) => b.s - a.s)
+      .map((d) => d.id);
+    return scheduleCleaning(due, cleaningBays, cleaningShifts);
+  }, [trains, effectiveWeights, mileage, cleaningBays, cleaningShifts]);
+  const cleaningSlotOf = useMemo(
+    () => Object.fromEntries(cleaning.assignments.map((a) => [a.trainId, a])),
+    [cleaning]
+  );
 
-function daysLeft(iso: string) {
-  return Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 3600 * 1000));
-}
+  const cleanAtDawn = useCallback(
+    (t: Trainset) => !t.cleaningDue || t.id in cleaningSlotOf,
+    [cleaningSlotOf]
+  );
 
-function scoreTrain(t: Trainset, weights: Weights) {
-  const minFitnessDays = Math.min(
-    daysLeft(t.fitness.rollingStockValidTill),
-    daysLeft(t.fitness.signallingValidTill),
-    daysLeft(t.fitness.telecomValidTill)
+  // Build ranked list. Blocked trains (fitness expired, safety work open) are always placed at the bottom.
+  const ranked: RankedTrain[] = useMemo(
+    () => rankTrains(trains, effectiveWeights, mileage, cleanAtDawn),
+    [trains, effectiveWeights, mileage, cleanAtDawn]
   );
 
-  if (!Number.isFinite(minFitnessDays) || minFitnessDays <= 0) {
-    return -Infinity; // hard block if any fitness expired or date is invalid
+  // Tonight's overrides for the optimiser; a maintenance window covering
+  // tonight holds the train in IBL unless a supervisor overrides it
+  const overrideDecisions = useMemo(
+    () => ({
+      ...Object.fromEntries(
+        maintenanceWindows
+          .filter((w) => windowCovers(w, night))
+          .map((w) => [w.trainId, "IBL" as const])
+      ),
+      ...Object.fromEntries(
+        Object.values(overrides).map((o) => [o.trainId, o.decision])
+      ),
+    }),
+    [maintenanceWindows, night, overrides]
+  );
+
+  // Induction set from the constrained optimiser. The live plan runs with a small
+  // search budget as inputs change; "Run Optimiser" does the full search.
+  const optimiserInput: OptimiserInput = useMemo(
+    () => ({
+      ranked,
+      serviceDemand,
+      uncleaned: new Set(cleaning.missed),
+      minReserve,
+      shuntBudget: DEFAULT_SHUNT_BUDGET,
+      respectBranding,
+      minimiseShunting,
+      overrides: overrideDecisions,
+    }),
+    [
+      ranked,
+      serviceDemand,
+      cleaning,
+      minReserve,
+      respectBranding,
+      minimiseShunting,
+      overrideDecisions,
+    ]
+  );
+  // Inputs for the weights sensitivity view, which re-plans per weight change
+  const sensitivityInput = useMemo(
+    () => ({
+      trains,
+      weights,
+      mileage,
+      cleanAtDawn: trains.filter(cleanAtDawn).map((t) => t.id),
+      optimiser: optimiserInput,
+    }),
+    [trains, weights, mileage, cleanAtDawn, optimiserInput]
+  );
+
+  const livePlan = useMemo(
+    () => optimiseInduction(optimiserInput, { nodeBudget: 5000 }),
+    [optimiserInput]
+  );
+  const {
+    result: fullPlan,
+    running: optimiserRunning,
+    nodes: optimiserNodes,
+    error: optimiserError,
+    run: runFullSearch,
+    cancel: cancelOptimiser,
+  } = useOptimiserRun();
+  const plan = fullPlan?.input === optimiserInput ? fullPlan.plan : livePlan;
+
+  function runOptimiser() {
+    runFullSearch(optimiserInput, 1000000);
   }
 
-  const fitnessScore = Math.max(0, Math.min(1, minFitnessDays / 10)); // 0..1
-  const jobPenalty = Math.max(0, 1 - Math.min(1, t.jobCardsOpen / 3)); // 1 if 0 jobs, 0 if >=3
-  const mileageBalance =
-    1 - Math.min(1, Math.abs((t.mileageKm - 36000) / 20000)); // prefer closer to 36k
-  const brandingScore = t.branding.campaign
-    ? Math.min(
-        1,
-        (t.branding.hoursCommitted - t.branding.hoursDelivered) /
-          Math.max(1, t.branding.hoursCommitted)
-      )
-    : 0.3; // neutral if no campaign
-  const cleaningPenalty = t.cleaningDue ? 0.4 : 1;
-  const stablingBonus =
-    t.stabledAt === "MAIN_DEPOT_A"
-      ? 1
-      : t.stabledAt === "MAIN_DEPOT_B"
-      ? 0.85
-      : 0.7; // geometry/shunting
+  const inductedIds = useMemo(() => new Set(plan.inducted), [plan]);
 
-  return (
-    fitnessScore * weights.fitness +
-    jobPenalty * weights.jobs +
-    mileageBalance * weights.mileage +
-    brandingScore * weights.branding +
-    cleaningPenalty * weights.cleaning +
-    stablingBonus * weights.stabling
+  const readyCount = trains.filter((t) => t.status !== "IBL").length;
+  const campaignCompliance = brandingCompliance(trains);
+
+  const {
+    rules: alertRules,
+    alerts,
+    states: alertStates,
+    error: alertError,
+    upsertRule,
+    removeRule,
+    acknowledge,
+    snooze,
+    reopen,
+  } = useAlerts(trains);
+
+  // What-if: the live planner state as an unsaved scenario
+  const {
+    scenarios,
+    error: scenarioError,
+    addScenario,
+    removeScenario,
+  } = useScenarios();
+  const currentScenario: Scenario = useMemo(
+    () => ({
+      id: "current",
+      name: "Current (unsaved)",
+      night,
+      createdAt: new Date().toISOString(),
+      inputs: {
+        weights,
+        serviceDemand,
+        cleaningBays,
+        minReserve,
+        respectBranding,
+        minimiseShunting,
+        serviceIntervalKm,
+      },
+      decisions: plan.decisions,
+      metrics: planMetrics(ranked, plan),
+    }),
+    [
+      night,
+      weights,
+      serviceDemand,
+      cleaningBays,
+      minReserve,
+      respectBranding,
+      minimiseShunting,
+      serviceIntervalKm,
+      ranked,
+      plan,
+    ]
   );
-}
 
-const defaultWeights: Weights = {
-  fitness: 0.35, // increased priority (user requested)
-  jobs: 0.2,
-  mileage: 0.15,
-  branding: 0.1,
-  cleaning: 0.1,
-  stabling: 0.1,
-};
+  function saveScenario(name: string) {
+    const createdAt = new Date().toISOString();
+    addScenario({ ...currentScenario, id: createdAt, name, createdAt });
+  }
 
-// -------------------------------------------------------------
-// Main Component
-// -------------------------------------------------------------
+  function loadScenario(s: Scenario) {
+    setWeights(s.inputs.weights);
+    setServiceDemand(s.inputs.serviceDemand);
+    setCleaningBays(s.inputs.cleaningBays);
+    setMinReserve(s.inputs.minReserve);
+    setRespectBranding(s.inputs.respectBranding);
+    setMinimiseShunting(s.inputs.minimiseShunting ?? false);
+    setServiceIntervalKm(
+      s.inputs.serviceIntervalKm ?? DEFAULT_SERVICE_INTERVAL_KM
+    );
+  }
 
-export default function KMRLDashboard() {
-  // const [trains, setTrains] = useState<Trainset[]>(seed);
-  const [trains] = useState<Trainset[]>(seed);
-  const [weights, setWeights] = useState<Weights>(defaultWeights);
-  const [nightMode, setNightMode] = useState(true);
-  const [serviceDemand, setServiceDemand] = useState(18); // how many rakes at dawn
-  const [simulateCleaningSlots, setSimulateCleaningSlots] = useState(6);
-  const [respectBranding, setRespectBranding] = useState(true);
+  // Shunting moves that release tonight's induction set from the depots
+  const shunting = useMemo(
+    () => planShunting(ranked, plan.inducted),
+    [ranked, plan]
+  );
+
+  // The next HORIZON_NIGHTS nights, re-planned from the live fleet whenever
+  // data or settings change
+  const horizon = useMemo(
+    () =>
+      planHorizon({
+        trains,
+        startNight: night,
+        weights: effectiveWeights,
+        serviceDemand,
+        minReserve,
+        cleaningBays,
+        cleaningShifts,
+        respectBranding,
+        serviceIntervalKm,
+        overrides: overrideDecisions,
+        windows: maintenanceWindows,
+      }),
+    [
+      trains,
+      night,
+      effectiveWeights,
+      serviceDemand,
+      minReserve,
+      cleaningBays,
+      cleaningShifts,
+      respectBranding,
+      serviceIntervalKm,
+      overrideDecisions,
+      maintenanceWindows,
+    ]
+  );
+
+  // Nightly KPI history; finalising records tonight's planned figures
+  const {
+    history: kpiHistory,
+    error: kpiError,
+    commitKpis,
+    finaliseNight,
+  } = useKpis();
 
-  // Build ranked list. Blocked trains (fitness expired) are always placed at the bottom.
-  const ranked: RankedTrain[] = useMemo(() => {
-    const w: Weights = respectBranding ? weights : { ...weights, branding: 0 };
-
-    const scored = trains.map((t) => {
-      const s = scoreTrain(t, w);
-      const blocked = !Number.isFinite(s) || s === -Infinity;
-      return {
-        ...t,
-        score: s,
-        blocked,
-        rank: -1,
-        displayScore: blocked
-          ? "BLOCKED"
-          : typeof s === "number"
-          ? s.toFixed(3)
-          : "N/A",
-      } as RankedTrain;
+  // Finalised plan versions; tonight's latest is the one awaiting sign-off
+  const { plans, error: plansError, commitPlan } = usePlans();
+  const latestTonight = plans.filter((p) => p.night === night).at(-1);
+
+  // Pre-finalisation checks; any red row gates "Finalise Night"
+  const health = useMemo(
+    () =>
+      constraintHealth({
+        ranked,
+        inducted: inductedIds,
+        cleaning,
+        brandingCompliance: campaignCompliance,
+      }),
+    [ranked, inductedIds, cleaning, campaignCompliance]
+  );
+  const redChecks = health.filter((h) => h.level === "red");
+  const [gateOpen, setGateOpen] = useState(false);
+
+  function finaliseTonight() {
+    if (redChecks.length || latestTonight) setGateOpen(true);
+    else commitFinalise({ overrideReason: null, revisionNote: null });
+  }
+
+  // Tonight's plan as it would be frozen now
+  function freezeTonight(
+    by: string,
+    revisionNote: string | null,
+    overrideReason: string | null
+  ) {
+    return freezePlan({
+      night,
+      previous: latestTonight,
+      trains,
+      ranked,
+      inducted: plan.inducted,
+      inputs: currentScenario.inputs,
+      decisions: currentScenario.decisions,
+      metrics: currentScenario.metrics,
+      by,
+      revisionNote,
+      overrideReason,
     });
+  }
 
-    scored.sort((a, b) => {
-      // blocked last
-      if (a.blocked !== b.blocked) return a.blocked ? 1 : -1;
-      // both non-blocked: higher score first
-      return (b.score as number) - (a.score as number);
+  function commitFinalise({
+    overrideReason,
+    revisionNote,
+  }: {
+    overrideReason: string | null;
+    revisionNote: string | null;
+  }) {
+    const by = user.name;
+    if (overrideReason) {
+      logAudit({
+        night,
+        trainId: null,
+        action: "finalise.override",
+        detail: `${redChecks
+          .map((h) => `${h.label}: ${h.summary}`)
+          .join("; ")}. Reason: ${overrideReason}`,
+      });
+    }
+    const version = freezeTonight(by, revisionNote, overrideReason);
+    commitPlan(version);
+    logAudit({
+      night,
+      trainId: null,
+      action: "plan.finalised",
+      detail: `v${version.version}: ${
+        plan.inducted.length
+      } of ${serviceDemand} rakes inducted${
+        revisionNote ? `. Revision: ${revisionNote}` : ""
+      }`,
+    });
+    setGateOpen(false);
+    const fit = ranked.filter((r) => !r.blocked).length;
+    finaliseNight(night, {
+      serviceDemand,
+      plannedInducted: plan.inducted.length,
+      availability: trains.length ? Math.round((fit / trains.length) * 100) : 0,
+      shuntingCost: shunting.minutes,
+      brandingCompliance: campaignCompliance,
     });
+  }
 
-    return scored.map((r, idx) => ({ ...r, rank: idx + 1 }));
-  }, [trains, weights, respectBranding]);
+  function signPlanVersion(v: PlanVersion, role: PlanRole, comment: string) {
+    const signed = signPlan(v, role, user, comment);
+    commitPlan(signed);
+    logAudit({
+      night: v.night,
+      trainId: null,
+      action: "plan.signed",
+      detail: `v${v.version} signed as ${PLAN_ROLES[role].toLowerCase()}${
+        comment.trim() ? `: ${comment.trim()}` : ""
+      }`,
+    });
+  }
 
-  // Set of train IDs chosen for induction: top N non-blocked
-  const inductedIds = useMemo(() => {
-    return new Set(
-      ranked
-        .filter((r) => !r.blocked)
-        .slice(0, serviceDemand)
-        .map((r) => r.id)
-    );
-  }, [ranked, serviceDemand]);
+  // Tonight's plan for download and the printed depot sheet
+  const exits = useMemo(() => exitOrder(ranked, plan.inducted), [ranked, plan]);
+  function exportData(): PlanExport {
+    return {
+      night,
+      generatedAt: new Date().toISOString(),
+      serviceDemand,
+      ranked,
+      decisions: currentScenario.decisions,
+      heldBack: plan.heldBack,
+      overrides: Object.values(overrides),
+      cleaning,
+      exits,
+      alerts: alerts.filter((a) => !isSilenced(alertStates[a.key])),
+      finalised: latestTonight,
+    };
+  }
 
-  const readyCount = trains.filter((t) => t.status !== "IBL").length;
-  const campaigns = trains.filter((t) => t.branding.campaign);
-  const campaignCompliance = campaigns.length
-    ? Math.round(
-        (trains.filter(
-          (t) =>
-            t.branding.campaign &&
-            t.branding.hoursDelivered >= Math.min(t.branding.hoursCommitted, 1)
-        ).length /
-          campaigns.length) *
-          100
-      )
-    : 100;
-
-  const alerts = useMemo(() => {
-    const a: { level: "high" | "med" | "low"; text: string }[] = [];
-    ranked.forEach((r) => {
-      const soon = (iso: string) =>
-        new Date(iso).getTime() < Date.now() + 48 * 3600 * 1000;
-      if (soon(r.fitness.telecomValidTill))
-        a.push({
-          level: "high",
-          text: `${r.id}: Telecom fitness expiring soon.`,
-        });
-      if (r.jobCardsOpen >= 3)
-        a.push({
-          level: "med",
-          text: `${r.id}: ${r.jobCardsOpen} open job-cards.`,
-        });
-      if (r.cleaningDue)
-        a.push({ level: "low", text: `${r.id}: Deep clean due.` });
-    });
-    return a.slice(0, 6);
-  }, [ranked]);
-
-  // What-if: recompute expected shunting cost (toy calc)
-  const shuntingCost = useMemo(() => {
-    const top = ranked.filter((r) => !r.blocked).slice(0, serviceDemand);
-    const cost = top.reduce(
-      (acc, r) =>
-        acc +
-        (r.stabledAt === "MAIN_DEPOT_A"
-          ? 1
-          : r.stabledAt === "MAIN_DEPOT_B"
-          ? 2
-          : 3),
-      0
-    );
-    return Math.round(cost * 1.4); // arbitrary units
-  }, [ranked, serviceDemand]);
-
-  const kpiData = Array.from({ length: 14 }).map((_, i) => ({
-    day: `D-${14 - i}`,
-    availability: 85 + Math.round(Math.random() * 12),
-    punctuality: 98 + Math.round(Math.random() * 2),
-  }));
-
-  // Helper: update a single weight safely
-  function updateWeight<K extends keyof Weights>(key: K, value: number) {
-    setWeights((prev) => ({ ...prev, [key]: value }));
+  function downloadPlan(format: "csv" | "json") {
+    const data = exportData();
+    if (format === "csv") {
+      downloadText(exportFileName(night, "csv"), planCsv(data), "text/csv");
+    } else {
+      downloadText(
+        exportFileName(night, "json"),
+        planJson(data),
+        "application/json"
+      );
+    }
+  }
+
+  // Inducted trains on the line, and the one picked on the map
+  const trainPositions = useTrainPositions(plan.inducted);
+  const [mapTrain, setMapTrain] = useState<string | null>(null);
+  const mapTrainIndex = ranked.findIndex((r) => r.id === mapTrain);
+
+  // Map provider; falls back to the schematic when tiles can't be used
+  const [mapSettings, setMapSettings] = useState(loadMapSettings);
+  const [mapSettingsOpen, setMapSettingsOpen] = useState(false);
+  const [mapFailure, setMapFailure] = useState<string | null>(null);
+  const mapFallback = mapSettingsProblem(mapSettings) ?? mapFailure;
+
+  function applyMapSettings(next: MapSettings, persist = true) {
+    if (persist) saveMapSettings(next);
+    setMapSettings(next);
+    setMapFailure(null);
+    setMapSettingsOpen(false);
+  }
+
+  // Expand a train's row in the ranking table and bring it into view
+  function selectTrain(id: string) {
+    setExpanded(id);
+    document
+      .getElementById(`train-row-${id}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+
+  // Re-stable a train from the depot view; an occupant of the bay swaps places
+  function restable(id: string, depot: Trainset["stabledAt"], bay: string) {
+    const changed = moveToBay(fleet, id, depot, bay);
+    if (changed.length) applyTrainsetUpdates(changed);
   }
 
   return (
     <div className={nightMode ? "dark" : ""}>
-      <div className="min-h-screen bg-background text-foreground">
+      <div className="min-h-screen bg-background text-foreground print:hidden">
         <header className="sticky top-0 z-30 backdrop-blur supports-[backdrop-filter]:bg-background/70 border-b">
           <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-3">
             {/* <TrafficCone className="h-5 w-5" /> */}
@@ -328,6 +639,20 @@ export default function KMRLDashboard() {
               Beta
             </Badge>
             <div className="ml-auto flex items-center gap-2">
+              <div className="text-right leading-tight mr-1">
+                <div className="text-sm font-medium">{user.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {USER_ROLES[user.role].label}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="gap-2"
+                onClick={onSignOut}
+              >
+                <LogOut className="h-4 w-4" /> Sign out
+              </Button>
               <Button
                 size="sm"
                 variant="ghost"
@@ -341,11 +666,49 @@ export default function KMRLDashboard() {
                 )}
                 {nightMode ? "Light" : "Dark"}
               </Button>
-              <Button size="sm" variant="outline" className="gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                disabled={!mayEdit}
+                title={mayEdit ? undefined : deniedReason("data.edit")}
+              >
                 <Upload className="h-4 w-4" /> Import Data
               </Button>
-              <Button size="sm" className="gap-2">
-                <Play className="h-4 w-4" /> Run Optimiser
+              <Button
+                size="sm"
+                className="gap-2"
+                onClick={optimiserRunning ? cancelOptimiser : runOptimiser}
+                disabled={!mayTune}
+                title={mayTune ? undefined : deniedReason("plan.tune")}
+              >
+                {optimiserRunning ? (
+                  <>
+                    <Square className="h-4 w-4" /> Cancel (
+                    {optimiserNodes.toLocaleString()} nodes)
+                  </>
+                ) : (
+                  <>
+                    <Play className="h-4 w-4" /> Run Optimiser
+                  </>
+                )}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={finaliseTonight}
+                disabled={!mayFinalise}
+                title={
+                  mayFinalise
+                    ? `Freeze the plan for the night of ${night} as a signed-off version`
+                    : deniedReason("plan.finalise")
+                }
+              >
+                <ShieldCheck className="h-4 w-4" />
+                {latestTonight
+                  ? `Revise Plan (v${latestTonight.version + 1})`
+                  : "Finalise Night"}
               </Button>
             </div>
           </div>
@@ -411,7 +774,19 @@ export default function KMRLDashboard() {
                   <div className="text-xs text-muted-foreground">
                     Est. Shunting Cost
                   </div>
-                  <div className="text-xl font-semibold">{shuntingCost} u</div>
+                  <div className="text-xl font-semibold">
+                    {shunting.moves.length} moves
+                  </div>
+                  <div
+                    className={`text-xs ${
+                      shunting.late.length
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {shunting.minutes} crew min · done by{" "}
+                    {clockTime(shunting.finishMin)}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -423,10 +798,53 @@ export default function KMRLDashboard() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <ListOrdered className="h-5 w-5" /> Ranked Induction List
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto gap-2"
+                    onClick={() => downloadPlan("csv")}
+                    title="Ranked list with each train's decision, as CSV"
+                  >
+                    <FileDown className="h-4 w-4" /> CSV
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-2"
+                    onClick={() => downloadPlan("json")}
+                    title="Tonight's plan as a JSON file"
+                  >
+                    <FileDown className="h-4 w-4" /> JSON
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-2"
+                    onClick={() => window.print()}
+                    title="Print the induction sheet for the depot"
+                  >
+                    <Printer className="h-4 w-4" /> Print sheet
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    disabled={!mayEdit}
+                    title={mayEdit ? undefined : deniedReason("data.edit")}
+                    onClick={() =>
+                      setEditing({
+                        t: newTrainset(nextTrainsetId(fleet)),
+                        isNew: true,
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4" /> Add trainset
+                  </Button>
                 </CardTitle>
                 <CardDescription>
-                  Explainable selection for dawn induction. Use sliders to tune
-                  weights and try what-if scenarios.
+                  Explainable selection for dawn induction. Expand a row for its
+                  score breakdown; use sliders to tune weights and try what-if
+                  scenarios.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -436,6 +854,7 @@ export default function KMRLDashboard() {
                       Service demand (rakes)
                     </div>
                     <Slider
+                      disabled={!mayTune}
                       value={[serviceDemand]}
                       min={8}
                       max={Math.max(8, trains.length)}
@@ -445,18 +864,47 @@ export default function KMRLDashboard() {
                   </div>
                   <div className="w-64">
                     <div className="text-xs text-muted-foreground mb-1">
-                      Cleaning slots available
+                      Cleaning bays available: {cleaningBays} (
+                      {cleaning.capacity} slots tonight)
                     </div>
                     <Slider
-                      value={[simulateCleaningSlots]}
+                      disabled={!mayTune}
+                      value={[cleaningBays]}
                       min={0}
-                      max={12}
+                      max={8}
                       step={1}
-                      onValueChange={(v) => setSimulateCleaningSlots(v[0])}
+                      onValueChange={(v) => setCleaningBays(v[0])}
+                    />
+                  </div>
+                  <div className="w-40">
+                    <div className="text-xs text-muted-foreground mb-1">
+                      Min standby reserve: {minReserve}
+                    </div>
+                    <Slider
+                      disabled={!mayTune}
+                      value={[minReserve]}
+                      min={0}
+                      max={6}
+                      step={1}
+                      onValueChange={(v) => setMinReserve(v[0])}
+                    />
+                  </div>
+                  <div className="w-48">
+                    <div className="text-xs text-muted-foreground mb-1">
+                      Service interval: {serviceIntervalKm.toLocaleString()} km
+                    </div>
+                    <Slider
+                      disabled={!mayTune}
+                      value={[serviceIntervalKm]}
+                      min={2000}
+                      max={10000}
+                      step={500}
+                      onValueChange={(v) => setServiceIntervalKm(v[0])}
                     />
                   </div>
                   <div className="flex items-center gap-2">
                     <Checkbox
+                      disabled={!mayTune}
                       id="branding"
                       checked={respectBranding}
                       onCheckedChange={(v) => setRespectBranding(Boolean(v))}
@@ -465,8 +913,54 @@ export default function KMRLDashboard() {
                       Respect branding priorities
                     </label>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      disabled={!mayTune}
+                      id="shunting"
+                      checked={minimiseShunting}
+                      onCheckedChange={(v) => setMinimiseShunting(Boolean(v))}
+                    />
+                    <label htmlFor="shunting" className="text-sm">
+                      Minimise shunting
+                    </label>
+                  </div>
+                </div>
+
+                <div className="mb-4 space-y-1 text-xs">
+                  <div className="text-muted-foreground">
+                    Optimiser:{" "}
+                    {optimiserRunning
+                      ? `full search running (${optimiserNodes.toLocaleString()} nodes so far); showing the quick plan`
+                      : plan.optimal
+                      ? `optimal plan (${plan.nodes.toLocaleString()} nodes searched)`
+                      : "search budget reached, best plan found so far — Run Optimiser for a full search"}
+                    {" · "}cleaning {cleaning.assignments.length}/
+                    {cleaning.capacity}
+                    {" · "}reserve {plan.usage.reserve}
+                  </div>
+                  {optimiserError && (
+                    <div className="text-destructive">{optimiserError}</div>
+                  )}
+                  {plan.unmet.map((u) => (
+                    <div
+                      key={u.constraint}
+                      className="flex items-center gap-2 text-destructive"
+                    >
+                      <AlertTriangle className="h-3 w-3" /> {u.message}
+                    </div>
+                  ))}
                 </div>
 
+                {(fleetLoading || fleetError) && (
+                  <div
+                    className={`text-sm mb-2 ${
+                      fleetError ? "text-destructive" : "text-muted-foreground"
+                    }`}
+                  >
+                    {fleetError ?? "Loading fleet…"}
+                  </div>
+                )}
+
                 <div className="overflow-auto rounded-2xl border">
                   <table className="w-full text-sm">
                     <thead className="bg-muted/50">
@@ -484,7 +978,7 @@ export default function KMRLDashboard() {
                       </tr>
                     </thead>
                     <tbody>
-                      {ranked.map((r) => {
+                      {ranked.map((r, i) => {
                         const minDays = Math.min(
                           daysLeft(r.fitness.rollingStockValidTill),
                           daysLeft(r.fitness.signallingValidTill),
@@ -492,97 +986,204 @@ export default function KMRLDashboard() {
                         );
 
                         const withinDemand = inductedIds.has(r.id);
+                        const active = activeCampaigns(r);
+                        const need = brandingNeed(r);
+                        const remainingHours = active.reduce(
+                          (h, c) => h + campaignProgress(c).remainingHours,
+                          0
+                        );
+
+                        const isExpanded = expanded === r.id;
+                        const override = overrides[r.id];
 
                         return (
-                          <tr
-                            key={r.id}
-                            className={
-                              r.blocked
-                                ? "bg-red-50 dark:bg-red-950/20"
-                                : withinDemand
-                                ? "bg-green-50 dark:bg-green-950/30"
-                                : undefined
-                            }
-                          >
-                            <td className="p-2 font-semibold">{r.rank}</td>
-                            <td className="p-2">{r.id}</td>
-                            <td className="p-2">{r.displayScore}</td>
-                            <td className="p-2">
-                              <div className="flex gap-1 flex-wrap">
-                                <Badge
-                                  variant={
-                                    minDays > 2 ? "default" : "destructive"
-                                  }
+                          <Fragment key={r.id}>
+                            <tr
+                              id={`train-row-${r.id}`}
+                              onClick={() =>
+                                mayEdit &&
+                                setEditing({
+                                  t: fleet.find((t) => t.id === r.id)!,
+                                  isNew: false,
+                                })
+                              }
+                              className={`${
+                                mayEdit ? "cursor-pointer " : ""
+                              }hover:bg-muted/40 ${
+                                r.blocked
+                                  ? "bg-red-50 dark:bg-red-950/20"
+                                  : withinDemand
+                                  ? "bg-green-50 dark:bg-green-950/30"
+                                  : ""
+                              }`}
+                            >
+                              <td className="p-2 font-semibold">
+                                <button
+                                  type="button"
+                                  className="inline-flex items-center gap-1"
+                                  aria-expanded={isExpanded}
+                                  aria-label={`Explain ${r.id}`}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setExpanded(isExpanded ? null : r.id);
+                                  }}
                                 >
-                                  {minDays}d
-                                </Badge>
-                              </div>
-                            </td>
-                            <td className="p-2">
-                              <Badge
-                                variant={
-                                  r.jobCardsOpen < 3 ? "default" : "destructive"
-                                }
-                              >
-                                {r.jobCardsOpen} open
-                              </Badge>
-                            </td>
-                            <td className="p-2">
-                              {r.branding.campaign ? (
-                                <div className="flex items-center gap-2">
-                                  <Badge variant="outline">
-                                    {r.branding.campaign}
-                                  </Badge>
+                                  <ChevronRight
+                                    className={`h-3 w-3 transition-transform ${
+                                      isExpanded ? "rotate-90" : ""
+                                    }`}
+                                  />
+                                  {r.rank}
+                                </button>
+                              </td>
+                              <td className="p-2">{r.id}</td>
+                              <td className="p-2">{r.displayScore}</td>
+                              <td className="p-2">
+                                <div className="flex gap-1 flex-wrap">
                                   <Badge
                                     variant={
-                                      Math.max(
-                                        0,
-                                        r.branding.hoursCommitted -
-                                          r.branding.hoursDelivered
-                                      ) <= 8
-                                        ? "default"
-                                        : "destructive"
+                                      minDays > 2 ? "default" : "destructive"
                                     }
                                   >
-                                    {Math.max(
-                                      0,
-                                      r.branding.hoursCommitted -
-                                        r.branding.hoursDelivered
-                                    )}
-                                    h due
+                                    {minDays}d
                                   </Badge>
                                 </div>
-                              ) : (
-                                <Badge variant="secondary">No Campaign</Badge>
-                              )}
-                            </td>
-                            <td className="p-2">
-                              {r.mileageKm.toLocaleString()} km
-                            </td>
-                            <td className="p-2">
-                              {r.cleaningDue ? (
-                                <Badge variant="destructive">Due</Badge>
-                              ) : (
-                                <Badge variant="secondary">OK</Badge>
-                              )}
-                            </td>
-                            <td className="p-2">
-                              {r.stabledAt} / {r.bay}
-                            </td>
-                            <td className="p-2">
-                              {r.blocked ? (
-                                <Badge variant="destructive">
-                                  Blocked (fitness)
-                                </Badge>
-                              ) : withinDemand ? (
-                                <Badge className="bg-green-600 hover:bg-green-600">
-                                  Induct
-                                </Badge>
-                              ) : (
-                                <Badge variant="outline">Standby</Badge>
-                              )}
-                            </td>
-                          </tr>
+                              </td>
+                              <td className="p-2">
+                                <JobCardsBadge train={r} />
+                              </td>
+                              <td className="p-2">
+                                {active.length ? (
+                                  <div className="flex items-center gap-2">
+                                    <Badge
+                                      variant="outline"
+                                      title={active
+                                        .map(
+                                          (c) => `${c.advertiser}: ${c.name}`
+                                        )
+                                        .join("\n")}
+                                    >
+                                      {active[0].name}
+                                      {active.length > 1 &&
+                                        ` +${active.length - 1}`}
+                                    </Badge>
+                                    <Badge
+                                      variant={
+                                        (need ?? 0) <= 0.5
+                                          ? "default"
+                                          : "destructive"
+                                      }
+                                    >
+                                      {Math.round(remainingHours)}h due
+                                    </Badge>
+                                  </div>
+                                ) : (
+                                  <Badge variant="secondary">No Campaign</Badge>
+                                )}
+                              </td>
+                              <td className="p-2">
+                                <div>{r.mileageKm.toLocaleString()} km</div>
+                                <div
+                                  className={`text-xs ${
+                                    kmSinceService(r) >= serviceIntervalKm
+                                      ? "text-destructive"
+                                      : "text-muted-foreground"
+                                  }`}
+                                >
+                                  {kmSinceService(r).toLocaleString()} km since
+                                  service
+                                </div>
+                              </td>
+                              <td className="p-2">
+                                {!r.cleaningDue ? (
+                                  <Badge variant="secondary">OK</Badge>
+                                ) : cleaningSlotOf[r.id] ? (
+                                  <Badge
+                                    variant="outline"
+                                    title={`Deep clean from ${
+                                      cleaningSlotOf[r.id].start
+                                    }`}
+                                  >
+                                    {cleaningSlotOf[r.id].shift} · Bay{" "}
+                                    {cleaningSlotOf[r.id].bay}
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="destructive">Due</Badge>
+                                )}
+                              </td>
+                              <td className="p-2">
+                                {r.stabledAt} / {r.bay}
+                              </td>
+                              <td className="p-2">
+                                {override && !r.blocked ? (
+                                  <>
+                                    <Badge
+                                      className="bg-amber-500 hover:bg-amber-500"
+                                      title={describeOverride(override)}
+                                    >
+                                      {override.decision} (override)
+                                    </Badge>
+                                    <div className="text-xs text-muted-foreground mt-1">
+                                      {override.author}
+                                    </div>
+                                  </>
+                                ) : r.blocked ? (
+                                  <>
+                                    <Badge
+                                      variant="destructive"
+                                      title={describeBlocked(r) ?? undefined}
+                                    >
+                                      Blocked ({blockLabel(r)})
+                                    </Badge>
+                                    <div className="text-xs text-muted-foreground mt-1">
+                                      {r.blockedBy
+                                        ? r.blockedBy.certificate
+                                            ?.certificateId ??
+                                          FITNESS_DEPARTMENTS[
+                                            r.blockedBy.department
+                                          ].label
+                                        : r.blockedByJobs[0]?.woId}
+                                    </div>
+                                  </>
+                                ) : withinDemand ? (
+                                  <Badge className="bg-green-600 hover:bg-green-600">
+                                    Induct
+                                  </Badge>
+                                ) : (
+                                  <>
+                                    <Badge variant="outline">Standby</Badge>
+                                    {plan.heldBack[r.id] && (
+                                      <div className="text-xs text-muted-foreground mt-1">
+                                        {plan.heldBack[r.id]}
+                                      </div>
+                                    )}
+                                  </>
+                                )}
+                              </td>
+                            </tr>
+                            {isExpanded && (
+                              <tr className="bg-muted/20">
+                                <td colSpan={10}>
+                                  <ScoreBreakdownPanel
+                                    train={r}
+                                    above={ranked[i - 1]}
+                                    below={ranked[i + 1]}
+                                  />
+                                  {mayOverride && (
+                                    <OverrideForm
+                                      key={override?.createdAt ?? "none"}
+                                      train={r}
+                                      night={night}
+                                      current={override}
+                                      author={user.name}
+                                      onApply={setOverride}
+                                      onClear={() => clearOverride(r.id)}
+                                    />
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
                         );
                       })}
                     </tbody>
@@ -590,9 +1191,9 @@ export default function KMRLDashboard() {
                 </div>
 
                 <div className="text-xs text-muted-foreground mt-2">
-                  *Decision is a function of fitness windows (hard constraint),
-                  job-cards, branding exposure gap, mileage balancing, cleaning
-                  slots & depot geometry.
+                  *Decision is a function of fitness windows and safety-critical
+                  job cards (hard constraints), job-card load, branding exposure
+                  gap, mileage balancing, cleaning slots & depot geometry.
                 </div>
               </CardContent>
             </Card>
@@ -608,39 +1209,11 @@ export default function KMRLDashboard() {
                     Live checks before finalisation.
                   </CardDescription>
                 </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm">Fitness Certificates</div>
-                    <Badge variant="default">OK</Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm">Job-Card Conflicts</div>
-                    <Badge variant="default">Low</Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm">Branding SLA Risk</div>
-                    <Badge
-                      variant={
-                        campaignCompliance >= 80 ? "default" : "destructive"
-                      }
-                    >
-                      {campaignCompliance}%
-                    </Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm">Cleaning Bay Load</div>
-                    <Badge
-                      variant={
-                        simulateCleaningSlots >= 5 ? "default" : "destructive"
-                      }
-                    >
-                      {simulateCleaningSlots} slots
-                    </Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm">Stabling Geometry</div>
-                    <Badge variant="default">Optimised</Badge>
-                  </div>
+                <CardContent>
+                  <ConstraintHealthPanel
+                    rows={health}
+                    onSelectTrain={selectTrain}
+                  />
                 </CardContent>
               </Card>
 
@@ -650,16 +1223,21 @@ export default function KMRLDashboard() {
                     <AlertTriangle className="h-5 w-5" /> Alerts
                   </CardTitle>
                   <CardDescription>
-                    Top issues needing attention.
+                    Raised by the alert rules, most severe first.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-2">
-                  {alerts.map((a, i) => (
-                    <div key={i} className="flex items-center gap-2 text-sm">
-                      <AlertTriangle className="h-4 w-4 text-amber-600" />
-                      <span>{a.text}</span>
-                    </div>
-                  ))}
+                  {alertError && (
+                    <div className="text-xs text-destructive">{alertError}</div>
+                  )}
+                  <AlertList
+                    alerts={alerts}
+                    states={alertStates}
+                    onAcknowledge={(key) => acknowledge(key, user.name)}
+                    onSnooze={(key, hours) => snooze(key, hours, user.name)}
+                    onReopen={reopen}
+                    readOnly={!mayEdit}
+                  />
                 </CardContent>
               </Card>
 
@@ -668,22 +1246,15 @@ export default function KMRLDashboard() {
                   <CardTitle className="flex items-center gap-2">
                     <BarChart3 className="h-5 w-5" /> Availability & Punctuality
                   </CardTitle>
-                  <CardDescription>Last 2 weeks</CardDescription>
+                  <CardDescription>Nightly outcomes</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="h-40">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={kpiData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="day" />
-                        <YAxis />
-                        <RTooltip />
-                        <Legend />
-                        <Line type="monotone" dataKey="availability" />
-                        <Line type="monotone" dataKey="punctuality" />
-                      </LineChart>
-                    </ResponsiveContainer>
-                  </div>
+                  {kpiError && (
+                    <div className="mb-2 text-xs text-destructive">
+                      {kpiError}
+                    </div>
+                  )}
+                  <KpiChart history={kpiHistory} lastNight={night} />
                 </CardContent>
               </Card>
             </div>
@@ -705,11 +1276,19 @@ export default function KMRLDashboard() {
                   <TabsTrigger value="streams">Live Streams</TabsTrigger>
                   <TabsTrigger value="imports">Manual Imports</TabsTrigger>
                   <TabsTrigger value="weights">Weights</TabsTrigger>
+                  <TabsTrigger value="alerts">Alert Rules</TabsTrigger>
+                  <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
                   <TabsTrigger value="notes">Notes</TabsTrigger>
                 </TabsList>
 
-                <TabsContent value="streams" className="pt-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TabsContent value="streams" className="pt-4 space-y-4">
+                  {sync.error && (
+                    <div className="text-xs text-destructive">{sync.error}</div>
+                  )}
+                  <fieldset
+                    disabled={!mayEdit}
+                    className="min-w-0 grid grid-cols-1 md:grid-cols-2 gap-4"
+                  >
                     <Card>
                       <CardHeader>
                         <CardTitle className="text-base flex items-center gap-2">
@@ -718,13 +1297,13 @@ export default function KMRLDashboard() {
                         </CardTitle>
                         <CardDescription>Open vs Closed WOs</CardDescription>
                       </CardHeader>
-                      <CardContent className="flex items-center justify-between">
-                        <div className="text-sm text-muted-foreground">
-                          4 feeds configured
-                        </div>
-                        <Button size="sm" variant="outline" className="gap-2">
-                          <RefreshCcw className="h-4 w-4" /> Sync
-                        </Button>
+                      <CardContent>
+                        <SyncStatusRow
+                          status={sync.status.maximo}
+                          source={sync.adapters.maximo.source}
+                          configured={sync.adapters.maximo.configured}
+                          onSync={() => sync.sync("maximo")}
+                        />
                       </CardContent>
                     </Card>
                     <Card>
@@ -736,13 +1315,16 @@ export default function KMRLDashboard() {
                           Advertiser SLA windows
                         </CardDescription>
                       </CardHeader>
-                      <CardContent className="flex items-center justify-between">
+                      <CardContent className="space-y-2">
                         <div className="text-sm text-muted-foreground">
-                          2 active campaigns
+                          {activeCampaignCount(trains)} active campaigns
                         </div>
-                        <Button size="sm" variant="outline" className="gap-2">
-                          <RefreshCcw className="h-4 w-4" /> Sync
-                        </Button>
+                        <SyncStatusRow
+                          status={sync.status.branding}
+                          source={sync.adapters.branding.source}
+                          configured={sync.adapters.branding.configured}
+                          onSync={() => sync.sync("branding")}
+                        />
                       </CardContent>
                     </Card>
                     <Card>
@@ -754,141 +1336,341 @@ export default function KMRLDashboard() {
                           Bay occupancy & manpower
                         </CardDescription>
                       </CardHeader>
-                      <CardContent className="flex items-center justify-between">
+                      <CardContent className="space-y-3">
                         <div className="text-sm text-muted-foreground">
-                          Slots tonight: {simulateCleaningSlots}
+                          Slots tonight: {cleaning.capacity} ({cleaningBays}{" "}
+                          bays)
                         </div>
-                        <Button size="sm" variant="outline" className="gap-2">
-                          <RefreshCcw className="h-4 w-4" /> Pull
-                        </Button>
-                      </CardContent>
-                    </Card>
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-base flex items-center gap-2">
-                          <Upload className="h-4 w-4" /> IoT Fitness (UNS)
-                        </CardTitle>
-                        <CardDescription>
-                          Rolling-Stock, Signalling, Telecom
-                        </CardDescription>
-                      </CardHeader>
-                      <CardContent className="flex items-center justify-between">
-                        <div className="text-sm text-muted-foreground">
-                          Latency &lt; 5 min
-                        </div>
-                        <Button size="sm" variant="outline" className="gap-2">
-                          <RefreshCcw className="h-4 w-4" /> Refresh
-                        </Button>
+                        <SyncStatusRow
+                          status={sync.status.cleaning}
+                          source={sync.adapters.cleaning.source}
+                          configured={sync.adapters.cleaning.configured}
+                          action="Pull"
+                          onSync={() => sync.sync("cleaning")}
+                        />
+                        {cleaningShifts.map((shift, i) => {
+                          const load = cleaning.perShift[i];
+                          return (
+                            <div
+                              key={shift.label}
+                              className="flex items-center gap-2 text-sm"
+                            >
+                              <span className="w-36">
+                                {shift.label} · {shift.start} ({shift.hours}h)
+                              </span>
+                              <Input
+                                type="number"
+                                min={0}
+                                className="h-8 w-16"
+                                value={shift.crews}
+                                onChange={(e) =>
+                                  setCleaningShifts((prev) =>
+                                    prev.map((p, j) =>
+                                      j === i
+                                        ? {
+                                            ...p,
+                                            crews: Math.max(
+                                              0,
+                                              Number(e.target.value) || 0
+                                            ),
+                                          }
+                                        : p
+                                    )
+                                  )
+                                }
+                              />
+                              <span className="text-muted-foreground">
+                                crews · {load.used}/{load.capacity} used
+                              </span>
+                            </div>
+                          );
+                        })}
                       </CardContent>
                     </Card>
-                  </div>
+                    <UnsFeedCard
+                      url={unsUrl}
+                      status={uns.status}
+                      detail={uns.detail}
+                      feeds={uns.feeds}
+                      received={uns.received}
+                      paused={uns.paused}
+                      onPause={uns.setPaused}
+                      onReconnect={uns.reconnect}
+                    >
+                      <SyncStatusRow
+                        status={sync.status.fitness}
+                        source={sync.adapters.fitness.source}
+                        configured={sync.adapters.fitness.configured}
+                        action="Pull certificates"
+                        onSync={() => sync.sync("fitness")}
+                      />
+                    </UnsFeedCard>
+                  </fieldset>
                 </TabsContent>
 
                 <TabsContent value="imports" className="pt-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-base">
-                          Upload Maximo CSV
-                        </CardTitle>
-                        <CardDescription>
-                          WO_ID, TRAIN_ID, STATUS, PRIORITY...
-                        </CardDescription>
-                      </CardHeader>
-                      <CardContent className="space-y-2">
-                        <Input type="file" accept=".csv" />
-                        <Button size="sm" className="w-full">
-                          Upload
-                        </Button>
-                      </CardContent>
-                    </Card>
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-base">
-                          Upload Fitness JSON
-                        </CardTitle>
-                        <CardDescription>
-                          Rolling/Signalling/Telecom certificates
-                        </CardDescription>
-                      </CardHeader>
-                      <CardContent className="space-y-2">
-                        <Input type="file" accept=".json" />
-                        <Button size="sm" className="w-full">
-                          Upload
-                        </Button>
-                      </CardContent>
-                    </Card>
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-base">
-                          Upload Branding XLSX
-                        </CardTitle>
-                        <CardDescription>
-                          Campaign windows and targets
-                        </CardDescription>
-                      </CardHeader>
-                      <CardContent className="space-y-2">
-                        <Input type="file" accept=".xlsx" />
-                        <Button size="sm" className="w-full">
-                          Upload
-                        </Button>
-                      </CardContent>
-                    </Card>
-                  </div>
+                  <fieldset
+                    disabled={!mayEdit}
+                    className="min-w-0 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+                  >
+                    <MaximoImportCard trains={fleet} onCommit={commitFleet} />
+                    <FitnessImportCard trains={fleet} onCommit={commitFleet} />
+                    <BrandingImportCard trains={fleet} onCommit={commitFleet} />
+                    <ActualsImportCard
+                      history={kpiHistory}
+                      onCommit={commitKpis}
+                    />
+                  </fieldset>
                 </TabsContent>
 
-                <TabsContent value="weights" className="pt-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {Object.entries(weights).map(([k, v]) => (
-                      <Card key={k}>
-                        <CardHeader>
-                          <CardTitle className="text-base">
-                            {k.toUpperCase()}
-                          </CardTitle>
-                          <CardDescription>
-                            Weight: {Number(v).toFixed(2)}
-                          </CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          <Slider
-                            value={[v as number]}
-                            min={0}
-                            max={0.5}
-                            step={0.01}
-                            onValueChange={(val) =>
-                              updateWeight(k as keyof Weights, val[0])
-                            }
-                          />
-                        </CardContent>
-                      </Card>
-                    ))}
-                  </div>
+                <TabsContent value="weights" className="pt-4 space-y-6">
+                  {weightProfilesError && (
+                    <div className="text-xs text-destructive">
+                      {weightProfilesError}
+                    </div>
+                  )}
+                  <WeightsPanel
+                    weights={weights}
+                    respectBranding={respectBranding}
+                    profiles={weightProfiles}
+                    onChange={setWeights}
+                    onSaveProfile={saveWeightProfile}
+                    onDeleteProfile={removeWeightProfile}
+                    readOnly={!mayTune}
+                  />
+                  <WeightSensitivity input={sensitivityInput} />
                 </TabsContent>
 
-                <TabsContent value="notes" className="pt-4">
-                  <Textarea
-                    placeholder="Operator notes, overrides, exceptions..."
-                    className="min-h-[120px]"
+                <TabsContent value="alerts" className="pt-4">
+                  <fieldset disabled={!mayEdit} className="min-w-0">
+                    <AlertRulesEditor
+                      rules={alertRules}
+                      onSave={upsertRule}
+                      onDelete={removeRule}
+                    />
+                  </fieldset>
+                </TabsContent>
+
+                <TabsContent value="scenarios" className="pt-4 space-y-2">
+                  {scenarioError && (
+                    <div className="text-xs text-destructive">
+                      {scenarioError}
+                    </div>
+                  )}
+                  <ScenarioPanel
+                    scenarios={scenarios}
+                    current={currentScenario}
+                    onSave={saveScenario}
+                    onLoad={loadScenario}
+                    onDelete={removeScenario}
+                    readOnly={!mayWhatIf}
                   />
-                  <div className="mt-2 flex justify-end">
-                    <Button variant="outline">Save Notes</Button>
+                </TabsContent>
+
+                <TabsContent value="notes" className="pt-4">
+                  {mayEdit && (
+                    <>
+                      <Textarea
+                        placeholder="Operator notes, exceptions... (per-train overrides are set from the expanded row)"
+                        className="min-h-[120px]"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                      />
+                      <div className="mt-2 flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          disabled={!note.trim()}
+                          onClick={() => {
+                            addNote(note.trim());
+                            setNote("");
+                          }}
+                        >
+                          Save Notes
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                  {overrideError && (
+                    <div className="text-sm text-destructive mt-2">
+                      {overrideError}
+                    </div>
+                  )}
+                  <div className="mt-4">
+                    <AuditLog entries={audit} />
                   </div>
                 </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
 
+          <Card className="mt-6 shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" /> Plan Sign-off & History
+                {latestTonight && (
+                  <Badge variant="outline" className="ml-2">
+                    Tonight v{latestTonight.version}:{" "}
+                    {PLAN_STATUS_LABELS[planStatus(latestTonight)]}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                Finalised plans are frozen with their inputs and fleet data. The
+                planner signs first, then the depot controller.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {plansError && (
+                <div className="mb-2 text-xs text-destructive">
+                  {plansError}
+                </div>
+              )}
+              <PlanHistory
+                plans={plans}
+                night={night}
+                user={user}
+                onSign={signPlanVersion}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6 shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Warehouse className="h-5 w-5" /> Depot Layout
+              </CardTitle>
+              <CardDescription>
+                Stabling lines and bays, exit end on the right, and the moves
+                that release tonight's plan.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DepotLayout
+                trains={ranked}
+                shunting={shunting}
+                onMove={mayEdit ? restable : undefined}
+                onSelectTrain={selectTrain}
+              />
+              <div className="mt-6">
+                <div className="text-sm font-medium mb-2">Shunting plan</div>
+                <ShuntingSteps plan={shunting} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6 shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarRange className="h-5 w-5" /> {HORIZON_NIGHTS}-Night
+                Horizon
+              </CardTitle>
+              <CardDescription>
+                Night-by-night plan projected from certificate expiry, daily km,
+                cleaning cycles and maintenance windows. Re-plans as tonight's
+                data arrives.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {maintenanceError && (
+                <div className="mb-2 text-xs text-destructive">
+                  {maintenanceError}
+                </div>
+              )}
+              <HorizonGrid
+                plan={horizon}
+                startNight={night}
+                serviceDemand={serviceDemand}
+                windows={maintenanceWindows}
+                onAddWindow={addMaintenanceWindow}
+                onRemoveWindow={removeMaintenanceWindow}
+                onSelectTrain={selectTrain}
+                readOnly={!mayEdit}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6 shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Route className="h-5 w-5" /> Mileage Balance
+              </CardTitle>
+              <CardDescription>
+                Fleet odometer spread now, after tonight's plan and across the
+                horizon.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MileageChart
+                trains={trains}
+                inducted={inductedIds}
+                horizon={horizon}
+                serviceIntervalKm={serviceIntervalKm}
+              />
+            </CardContent>
+          </Card>
+
           <Card className="mt-6 shadow-sm">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <MapIcon className="h-5 w-5" /> Train Map
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto gap-2"
+                  onClick={() => setMapSettingsOpen((o) => !o)}
+                >
+                  <Settings className="h-4 w-4" />{" "}
+                  {MAP_PROVIDERS[mapSettings.provider]}
+                </Button>
               </CardTitle>
               {/* <CardDescription>
                 Bring siloed data into a single source of truth.
               </CardDescription> */}
             </CardHeader>
-            <CardContent className="min-h-[400px]">
-              <MapBox />
+            <CardContent className="min-h-[400px] grid grid-cols-1 lg:grid-cols-4 gap-4">
+              <div className="lg:col-span-3 space-y-2">
+                {mapSettingsOpen && (
+                  <MapSettingsForm
+                    settings={mapSettings}
+                    onSave={applyMapSettings}
+                    onReset={() => applyMapSettings(resetMapSettings(), false)}
+                  />
+                )}
+                {mapFallback && (
+                  <div className="text-xs text-muted-foreground">
+                    Showing the schematic: {mapFallback}.
+                  </div>
+                )}
+                {mapFallback || mapSettings.provider === "schematic" ? (
+                  <SchematicMap
+                    trains={trainPositions}
+                    selectedId={mapTrain}
+                    onSelectTrain={setMapTrain}
+                  />
+                ) : (
+                  <MapBox
+                    settings={mapSettings}
+                    onFail={setMapFailure}
+                    trains={trainPositions}
+                    selectedId={mapTrain}
+                    onSelectTrain={setMapTrain}
+                  />
+                )}
+              </div>
+              {mapTrainIndex >= 0 ? (
+                <TrainMapDetails
+                  train={ranked[mapTrainIndex]}
+                  position={trainPositions.find((p) => p.trainId === mapTrain)}
+                  above={ranked[mapTrainIndex - 1]}
+                  below={ranked[mapTrainIndex + 1]}
+                  onShowInList={() => selectTrain(ranked[mapTrainIndex].id)}
+                />
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  {plan.inducted.length} inducted trainsets on the timetable.
+                  Click a train for its ranking details.
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -896,14 +1678,54 @@ export default function KMRLDashboard() {
           <div className="text-xs text-muted-foreground mt-6 flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Map className="h-4 w-4" />
-              <span>Depot Layout: MAIN_DEPOT_A / MAIN_DEPOT_B / SATELLITE</span>
+              <span>
+                Depots:{" "}
+                {Object.values(DEPOT_LAYOUT)
+                  .map((d) => d.label)
+                  .join(" / ")}
+              </span>
             </div>
             <div className="flex items-center gap-2">
               <span>v0.1</span>
             </div>
           </div>
         </main>
+
+        {editing && (
+          <TrainsetDrawer
+            key={editing.t.id}
+            trainset={fleet.find((t) => t.id === editing.t.id) ?? editing.t}
+            isNew={editing.isNew}
+            existingIds={fleet.map((t) => t.id)}
+            onSave={(t) => {
+              upsertTrainset(t);
+              setEditing(null);
+            }}
+            onRetire={(t) => {
+              retireTrainset(t);
+              setEditing(null);
+            }}
+            onClose={() => setEditing(null)}
+          />
+        )}
+
+        {gateOpen && (
+          <FinaliseGate
+            night={night}
+            version={(latestTonight?.version ?? 0) + 1}
+            red={redChecks}
+            diff={
+              latestTonight
+                ? planDiff(latestTonight, freezeTonight(user.name, null, null))
+                : null
+            }
+            canOverride={mayOverride}
+            onConfirm={commitFinalise}
+            onClose={() => setGateOpen(false)}
+          />
+        )}
       </div>
+      <InductionSheet data={exportData()} shunting={shunting} />
     </div>
   );
 }
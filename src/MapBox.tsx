@@ -1,64 +1,197 @@
 import { useEffect, useRef } from 'react';
 import mapboxgl from 'mapbox-gl';
+import type { FeatureCollection } from 'geojson';
+import { mapStyle, type MapSettings } from '@/lib/mapConfig';
+import {
+  STATIONS,
+  routeGeoJson,
+  stationsGeoJson,
+  type TrainPosition,
+} from '@/lib/route';
 
 import 'mapbox-gl/dist/mapbox-gl.css';
 
-const MapboxExample = () => {
+type Props = {
+  settings: MapSettings;
+  onFail: (message: string) => void; // style or tiles could not be loaded
+  trains: TrainPosition[];
+  selectedId: string | null;
+  onSelectTrain: (trainId: string) => void;
+};
+
+function trainsGeoJson(trains: TrainPosition[]): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: trains.map((t) => ({
+      type: 'Feature',
+      properties: { trainId: t.trainId, label: t.trainId.replace('KMRL-', '') },
+      geometry: { type: 'Point', coordinates: [t.lng, t.lat] },
+    })),
+  };
+}
+
+// Selected train in amber, the rest in green
+function trainColor(
+  selectedId: string | null
+): mapboxgl.ExpressionSpecification {
+  return [
+    'case',
+    ['==', ['get', 'trainId'], selectedId ?? ''],
+    '#f59e0b',
+    '#16a34a',
+  ];
+}
+
+// Line 1 with its stations and the inducted trains. Train markers are one
+// GeoJSON source updated in place, so they move without re-creating markers.
+const MapBox = ({
+  settings,
+  onFail,
+  trains,
+  selectedId,
+  onSelectTrain,
+}: Props) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
+  const loadedRef = useRef(false);
+  const trainsRef = useRef(trains);
+  trainsRef.current = trains;
+  const selectedRef = useRef(selectedId);
+  selectedRef.current = selectedId;
+  const selectRef = useRef(onSelectTrain);
+  selectRef.current = onSelectTrain;
+  const failRef = useRef(onFail);
+  failRef.current = onFail;
 
   useEffect(() => {
-    mapboxgl.accessToken = 'pk.eyJ1IjoibWFuYW4xNzI5IiwiYSI6ImNtZWR5dmJ4dTA2YnkyanNibGtkaTZ2dGMifQ.fYJ0rKyWTmkkq9l_JL6iZQ';
+    mapboxgl.accessToken = settings.token;
+    if (!mapContainerRef.current) return;
+
+    const map = new mapboxgl.Map({
+      container: mapContainerRef.current,
+      style: mapStyle(settings),
+      center: [76.3, 10.03], // starting position [lng, lat]
+      zoom: 11, // starting zoom
+    });
+    mapRef.current = map;
 
-    if (mapContainerRef.current) {
-      mapRef.current = new mapboxgl.Map({
-        container: mapContainerRef.current,
-        center: [76.2673, 9.9312], // starting position [lng, lat]
-        zoom: 9 // starting zoom
+    // Errors before the first load mean no usable map (no network, bad token
+    // or URL). Later tile and source errors are left to mapbox-gl; any other
+    // later error, such as the token check mapbox-gl runs after the style
+    // loads, leaves a blank map and falls back too.
+    map.on('error', (e) => {
+      const perSource = 'sourceId' in e || 'tile' in e;
+      if (!loadedRef.current || !perSource) failRef.current(e.error.message);
+    });
+
+    map.on('load', () => {
+      const labels = Boolean(map.getStyle()?.glyphs);
+      map.addSource('route', { type: 'geojson', data: routeGeoJson() });
+      map.addSource('stations', { type: 'geojson', data: stationsGeoJson() });
+      map.addSource('trains', {
+        type: 'geojson',
+        data: trainsGeoJson(trainsRef.current),
+      });
+      map.addLayer({
+        id: 'route',
+        type: 'line',
+        source: 'route',
+        layout: { 'line-cap': 'round', 'line-join': 'round' },
+        paint: { 'line-color': '#0ea5e9', 'line-width': 4 },
+      });
+      map.addLayer({
+        id: 'stations',
+        type: 'circle',
+        source: 'stations',
+        paint: {
+          'circle-radius': ['case', ['get', 'terminal'], 6, 4],
+          'circle-color': '#ffffff',
+          'circle-stroke-color': '#0ea5e9',
+          'circle-stroke-width': 2,
+        },
       });
-// 10.04440072722204, 76.32880180376287
-// 10.027188055282442, 76.30862296138723
-// 10.00100606320165, 76.31006562790994 palarivattoam
-// 9.997000711118094, 76.29502973314477 JLN statdium
-// 9.970730228934686, 76.29155430219876 mg road
-// 9.96954402834553, 76.29167334054236 ernalkulum railway statsion
-// 9.969523557975279, 76.31723752024725 vyttila
-// 9.95471779402356, 76.34640079266518 sn junction
-//  Aluva
-          new mapboxgl.Marker()
-      .setLngLat([76.35021866728692, 10.116168841189038])
-      .addTo(mapRef.current);
-// cochin univarsity
-          new mapboxgl.Marker()
-      .setLngLat([76.31846983878278, 10.052933615793775])
-      .addTo(mapRef.current);
-//kaloor
- 
-          new mapboxgl.Marker()
-      .setLngLat([76.29168747109925, 9.996756469603197])
-      .addTo(mapRef.current);
-
-//town hall
-          new mapboxgl.Marker()
-      .setLngLat([76.28906462787582, 9.992343845357038])
-      .addTo(mapRef.current);
-
-// mg road
-          new mapboxgl.Marker({color: 'red'})
-      .setLngLat([76.28213542921326, 9.98398182548758])
-      .addTo(mapRef.current);
-
-//ernakulum
-          new mapboxgl.Marker({color: 'red'})
-      .setLngLat([76.28896703352845, 9.969467924739781])
-      .addTo(mapRef.current);
-
-//sn jucntion
-          new mapboxgl.Marker({color: 'red'})
-      .setLngLat([76.34615732239023, 9.956491373221308])
-      .addTo(mapRef.current);
-    }
-  }, []);
+      if (labels) {
+        map.addLayer({
+          id: 'station-labels',
+          type: 'symbol',
+          source: 'stations',
+          layout: {
+            'text-field': ['get', 'name'],
+            'text-size': 11,
+            'text-offset': [0.8, 0],
+            'text-anchor': 'left',
+          },
+          paint: { 'text-halo-color': '#ffffff', 'text-halo-width': 1 },
+        });
+      }
+      map.addLayer({
+        id: 'trains',
+        type: 'circle',
+        source: 'trains',
+        paint: {
+          'circle-radius': 7,
+          'circle-color': trainColor(selectedRef.current),
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2,
+        },
+      });
+      if (labels) {
+        map.addLayer({
+          id: 'train-labels',
+          type: 'symbol',
+          source: 'trains',
+          layout: {
+            'text-field': ['get', 'label'],
+            'text-size': 10,
+            'text-offset': [0, -1.4],
+            'text-allow-overlap': true,
+          },
+          paint: { 'text-halo-color': '#ffffff', 'text-halo-width': 1 },
+        });
+      }
+
+      map.on('click', 'trains', (e) => {
+        const id = e.features?.[0]?.properties?.trainId;
+        if (typeof id === 'string') selectRef.current(id);
+      });
+      map.on('mouseenter', 'trains', () => {
+        map.getCanvas().style.cursor = 'pointer';
+      });
+      map.on('mouseleave', 'trains', () => {
+        map.getCanvas().style.cursor = '';
+      });
+
+      const bounds = new mapboxgl.LngLatBounds();
+      STATIONS.forEach((s) => bounds.extend([s.lng, s.lat]));
+      map.fitBounds(bounds, { padding: 40, duration: 0 });
+      loadedRef.current = true;
+    });
+
+    return () => {
+      loadedRef.current = false;
+      mapRef.current = null;
+      map.remove();
+    };
+  }, [settings]);
+
+  // Move the train markers as positions update
+  useEffect(() => {
+    if (!loadedRef.current) return;
+    const source = mapRef.current?.getSource('trains') as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    source?.setData(trainsGeoJson(trains));
+  }, [trains]);
+
+  // Highlight the selected train
+  useEffect(() => {
+    if (!loadedRef.current) return;
+    mapRef.current?.setPaintProperty(
+      'trains',
+      'circle-color',
+      trainColor(selectedId)
+    );
+  }, [selectedId]);
 
   return (
     <div
@@ -69,4 +202,4 @@ const MapboxExample = () => {
   );
 };
 
-export default MapboxExample;
\ No newline at end of file
+export default MapBox;
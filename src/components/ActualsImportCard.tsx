@@ -0,0 +1,117 @@
+import { useState } from "react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ImportIssueList from "@/components/ImportIssueList";
+import {
+  applyActualsImport,
+  parseActualsCsv,
+  type ActualsPreview,
+} from "@/lib/kpi";
+import type { NightKpi } from "@/lib/types";
+
+type Props = {
+  history: NightKpi[];
+  onCommit: (records: NightKpi[]) => void;
+};
+
+export default function ActualsImportCard({ history, onCommit }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ActualsPreview | null>(null);
+
+  async function handleUpload() {
+    if (!file) return;
+    const text = await file.text();
+    setPreview(parseActualsCsv(text, file.name));
+  }
+
+  function handleCommit() {
+    if (!preview) return;
+    onCommit(applyActualsImport(history, preview));
+    setPreview(null);
+  }
+
+  const errors = preview?.issues.filter((i) => i.level === "error") ?? [];
+  const replacing = preview
+    ? preview.records.filter(
+        (r) => history.find((k) => k.night === r.night)?.actualsImportedAt
+      ).length
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Upload Service Actuals CSV</CardTitle>
+        <CardDescription>
+          SERVICE_DATE, RAKES_IN_SERVICE, PUNCTUALITY_PCT...
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Input
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setPreview(null);
+          }}
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!file}
+          onClick={handleUpload}
+        >
+          Upload
+        </Button>
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            {preview.fatal ? (
+              <div className="text-destructive">{preview.fatal}</div>
+            ) : (
+              <>
+                <div className="text-muted-foreground">
+                  {preview.totalRows} rows · {preview.records.length} service
+                  days
+                  {replacing > 0 && ` (${replacing} already imported)`}
+                </div>
+                <ImportIssueList issues={preview.issues} />
+                <div className="text-xs text-muted-foreground">
+                  Each service day is matched to the plan finalised the evening
+                  before.
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={!!preview.fatal || !preview.records.length}
+                onClick={handleCommit}
+              >
+                {errors.length
+                  ? `Commit (skip ${errors.length} rows)`
+                  : "Commit"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setPreview(null)}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { isSilenced, type Alert } from "@/lib/alerts";
+import type { AlertLevel, AlertState } from "@/lib/types";
+
+const LEVEL_CLASS: Record<AlertLevel, string> = {
+  high: "text-red-600",
+  med: "text-amber-600",
+  low: "text-sky-600",
+};
+
+const SNOOZE_HOURS = 8;
+
+type Props = {
+  alerts: Alert[]; // most severe first
+  states: Record<string, AlertState>;
+  onAcknowledge: (key: string) => void;
+  onSnooze: (key: string, hours: number) => void;
+  onReopen: (key: string) => void;
+  readOnly?: boolean; // no acknowledge / snooze / reopen
+};
+
+export default function AlertList({
+  alerts,
+  states,
+  onAcknowledge,
+  onSnooze,
+  onReopen,
+  readOnly = false,
+}: Props) {
+  const [showAll, setShowAll] = useState(false);
+  const open = alerts.filter((a) => !isSilenced(states[a.key]));
+  const shown = showAll ? alerts : open;
+  const counts = (level: AlertLevel) =>
+    open.filter((a) => a.level === level).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="flex-1">
+          {open.length} open · {counts("high")} high · {counts("med")} med ·{" "}
+          {counts("low")} low
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={() => setShowAll((v) => !v)}
+        >
+          {showAll ? "Open only" : `Show all (${alerts.length})`}
+        </Button>
+      </div>
+      <div className="max-h-64 overflow-auto space-y-1">
+        {shown.map((a) => {
+          const state = states[a.key];
+          const silenced = isSilenced(state);
+          return (
+            <div
+              key={a.key}
+              className={`flex items-center gap-2 text-sm ${
+                silenced ? "opacity-60" : ""
+              }`}
+            >
+              <AlertTriangle
+                className={`h-4 w-4 shrink-0 ${LEVEL_CLASS[a.level]}`}
+                aria-label={a.level}
+              />
+              <span className="flex-1">
+                {a.text}
+                {silenced && state && (
+                  <span className="text-xs text-muted-foreground">
+                    {" "}
+                    ·{" "}
+                    {state.status === "acknowledged"
+                      ? `ack'd by ${state.by}`
+                      : `snoozed until ${new Date(
+                          state.until!
+                        ).toLocaleTimeString()}`}
+                  </span>
+                )}
+              </span>
+              {readOnly ? null : silenced ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onReopen(a.key)}
+                >
+                  Reopen
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onAcknowledge(a.key)}
+                  >
+                    Ack
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    title={`Hide for ${SNOOZE_HOURS}h`}
+                    onClick={() => onSnooze(a.key, SNOOZE_HOURS)}
+                  >
+                    Snooze
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+        {!shown.length && (
+          <div className="text-sm text-muted-foreground">
+            {alerts.length
+              ? "All alerts acknowledged or snoozed."
+              : "No alerts."}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  ALERT_COMPARATORS,
+  ALERT_FIELDS,
+  ALERT_LEVELS,
+  DEFAULT_RULES,
+} from "@/lib/alerts";
+import type { AlertComparator, AlertLevel, AlertRule } from "@/lib/types";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-2 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+function RuleRow({
+  rule,
+  onSave,
+  onDelete,
+}: {
+  rule: AlertRule;
+  onSave: (r: AlertRule) => void;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState(rule);
+  const [threshold, setThreshold] = useState(String(rule.threshold));
+  const thresholdOk = threshold.trim() !== "" && Number.isFinite(+threshold);
+  const dirty =
+    JSON.stringify({ ...draft, threshold: +threshold }) !==
+    JSON.stringify(rule);
+
+  function set<K extends keyof AlertRule>(key: K, value: AlertRule[K]) {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }
+
+  return (
+    <tr className="border-t">
+      <td className="p-2">
+        <Checkbox
+          checked={draft.enabled}
+          onCheckedChange={(v) => set("enabled", !!v)}
+          aria-label="Enabled"
+        />
+      </td>
+      <td className="p-2">
+        <select
+          className={selectClass}
+          value={draft.field}
+          onChange={(e) => set("field", e.target.value)}
+        >
+          {Object.entries(ALERT_FIELDS).map(([k, f]) => (
+            <option key={k} value={k}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="p-2">
+        <select
+          className={selectClass}
+          value={draft.comparator}
+          onChange={(e) => set("comparator", e.target.value as AlertComparator)}
+        >
+          {ALERT_COMPARATORS.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="p-2">
+        <Input
+          className="w-20"
+          inputMode="decimal"
+          value={threshold}
+          aria-invalid={!thresholdOk}
+          onChange={(e) => setThreshold(e.target.value)}
+        />
+      </td>
+      <td className="p-2">
+        <select
+          className={selectClass}
+          value={draft.level}
+          onChange={(e) => set("level", e.target.value as AlertLevel)}
+        >
+          {ALERT_LEVELS.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="p-2 w-full">
+        <Input
+          value={draft.message}
+          onChange={(e) => set("message", e.target.value)}
+        />
+      </td>
+      <td className="p-2 whitespace-nowrap">
+        <Button
+          size="sm"
+          disabled={!dirty || !thresholdOk || !draft.message.trim()}
+          onClick={() => onSave({ ...draft, threshold: +threshold })}
+        >
+          Save
+        </Button>{" "}
+        <Button size="sm" variant="outline" onClick={onDelete}>
+          Delete
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+type Props = {
+  rules: AlertRule[];
+  onSave: (rule: AlertRule) => void;
+  onDelete: (id: string) => void;
+};
+
+export default function AlertRulesEditor({ rules, onSave, onDelete }: Props) {
+  const missingDefaults = DEFAULT_RULES.filter(
+    (d) => !rules.some((r) => r.id === d.id)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="text-left p-2">On</th>
+              <th className="text-left p-2">Field</th>
+              <th className="text-left p-2">Test</th>
+              <th className="text-left p-2">Threshold</th>
+              <th className="text-left p-2">Level</th>
+              <th className="text-left p-2">Message</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((r) => (
+              <RuleRow
+                key={JSON.stringify(r)}
+                rule={r}
+                onSave={onSave}
+                onDelete={() => onDelete(r.id)}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            onSave({
+              id: `rule-${Date.now().toString(36)}`,
+              field: "kmSinceService",
+              comparator: ">",
+              threshold: 5000,
+              level: "med",
+              message: "{train}: {value} km since last service.",
+              enabled: true,
+            })
+          }
+        >
+          Add rule
+        </Button>
+        {missingDefaults.length > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => missingDefaults.forEach(onSave)}
+          >
+            Restore {missingDefaults.length} default rule
+            {missingDefaults.length === 1 ? "" : "s"}
+          </Button>
+        )}
+        <span className="text-xs text-muted-foreground ml-auto">
+          Message placeholders: {"{train}"}, {"{value}"}, {"{threshold}"}
+        </span>
+      </div>
+    </div>
+  );
+}
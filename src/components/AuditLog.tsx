@@ -0,0 +1,118 @@
+import { useMemo, useState } from "react";
+import { USER_ROLES } from "@/lib/auth";
+import type { AuditEntry } from "@/lib/types";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 py-1 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  "override.set": "Override set",
+  "override.cleared": "Override cleared",
+  note: "Note",
+  "plan.finalised": "Plan finalised",
+  "plan.signed": "Plan signed off",
+  "finalise.override": "Finalised past red checks",
+};
+
+type Props = {
+  entries: AuditEntry[]; // newest first
+};
+
+export default function AuditLog({ entries }: Props) {
+  const [night, setNight] = useState("");
+  const [trainId, setTrainId] = useState("");
+
+  const nights = useMemo(
+    () => [...new Set(entries.map((e) => e.night))].sort().reverse(),
+    [entries]
+  );
+  const trainIds = useMemo(
+    () =>
+      [
+        ...new Set(entries.flatMap((e) => (e.trainId ? [e.trainId] : []))),
+      ].sort(),
+    [entries]
+  );
+  const shown = entries.filter(
+    (e) => (!night || e.night === night) && (!trainId || e.trainId === trainId)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium flex-1">Audit log</span>
+        <select
+          className={selectClass}
+          value={night}
+          onChange={(e) => setNight(e.target.value)}
+          aria-label="Filter by night"
+        >
+          <option value="">All nights</option>
+          {nights.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={trainId}
+          onChange={(e) => setTrainId(e.target.value)}
+          aria-label="Filter by trainset"
+        >
+          <option value="">All trainsets</option>
+          {trainIds.map((id) => (
+            <option key={id} value={id}>
+              {id}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="max-h-72 overflow-auto rounded-xl border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50 sticky top-0">
+            <tr>
+              <th className="text-left p-2">When</th>
+              <th className="text-left p-2">Night</th>
+              <th className="text-left p-2">Trainset</th>
+              <th className="text-left p-2">Action</th>
+              <th className="text-left p-2">Detail</th>
+              <th className="text-left p-2">By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((e) => (
+              <tr key={e.id} className="border-t align-top">
+                <td className="p-2 whitespace-nowrap">
+                  {new Date(e.at).toLocaleString()}
+                </td>
+                <td className="p-2">{e.night}</td>
+                <td className="p-2">{e.trainId ?? "—"}</td>
+                <td className="p-2">{ACTION_LABELS[e.action]}</td>
+                <td className="p-2 whitespace-pre-wrap">{e.detail}</td>
+                <td className="p-2">
+                  {e.author}
+                  {e.role && (
+                    <div
+                      className="text-muted-foreground"
+                      title={e.userId ? `User id ${e.userId}` : undefined}
+                    >
+                      {USER_ROLES[e.role].label}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {!shown.length && (
+              <tr>
+                <td colSpan={6} className="p-2 text-muted-foreground">
+                  No entries.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import readXlsxFile from "read-excel-file";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ImportIssueList from "@/components/ImportIssueList";
+import {
+  applyBrandingImport,
+  isActive,
+  parseBrandingRows,
+  type BrandingPreview,
+} from "@/lib/branding";
+import type { Trainset } from "@/lib/types";
+
+type Props = {
+  trains: Trainset[];
+  onCommit: (next: Trainset[]) => void;
+};
+
+export default function BrandingImportCard({ trains, onCommit }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<BrandingPreview | null>(null);
+
+  async function handleUpload() {
+    if (!file) return;
+    try {
+      const rows = await readXlsxFile(file);
+      setPreview(
+        parseBrandingRows(
+          rows,
+          file.name,
+          trains.map((t) => t.id)
+        )
+      );
+    } catch (e) {
+      setPreview({
+        fileName: file.name,
+        totalRows: 0,
+        campaigns: [],
+        issues: [],
+        fatal: `Could not read workbook: ${(e as Error).message}`,
+      });
+    }
+  }
+
+  function handleCommit() {
+    if (!preview) return;
+    onCommit(applyBrandingImport(trains, preview));
+    setPreview(null);
+  }
+
+  const errors = preview?.issues.filter((i) => i.level === "error") ?? [];
+  const contracts = preview
+    ? new Set(preview.campaigns.map((c) => c.campaignId)).size
+    : 0;
+  const active = preview
+    ? new Set(
+        preview.campaigns.filter((c) => isActive(c)).map((c) => c.campaignId)
+      ).size
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Upload Branding XLSX</CardTitle>
+        <CardDescription>Campaign windows and targets</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Input
+          type="file"
+          accept=".xlsx"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setPreview(null);
+          }}
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!file}
+          onClick={handleUpload}
+        >
+          Upload
+        </Button>
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            {preview.fatal ? (
+              <div className="text-destructive">{preview.fatal}</div>
+            ) : (
+              <>
+                <div className="text-muted-foreground">
+                  {preview.totalRows} rows · {contracts} campaigns ({active}{" "}
+                  active) on {new Set(preview.campaigns.map((c) => c.trainId)).size}{" "}
+                  trainsets
+                </div>
+                <ImportIssueList issues={preview.issues} />
+                <div className="text-xs text-muted-foreground">
+                  The sheet replaces all current contracts.
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={!!preview.fatal || !preview.campaigns.length}
+                onClick={handleCommit}
+              >
+                {errors.length
+                  ? `Commit (skip ${errors.length} rows)`
+                  : "Commit"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setPreview(null)}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
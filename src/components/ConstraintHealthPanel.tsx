@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { HealthLevel, HealthRow } from "@/lib/health";
+
+const LEVEL_CLASS: Record<HealthLevel, string> = {
+  green: "bg-green-600 hover:bg-green-600",
+  amber: "bg-amber-500 hover:bg-amber-500",
+  red: "bg-red-600 hover:bg-red-600",
+};
+
+type Props = {
+  rows: HealthRow[];
+  onSelectTrain: (trainId: string) => void;
+};
+
+export default function ConstraintHealthPanel({ rows, onSelectTrain }: Props) {
+  const [open, setOpen] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row) => {
+        const isOpen = open === row.key;
+        return (
+          <div key={row.key}>
+            <button
+              type="button"
+              className="w-full flex items-center justify-between gap-2 text-left disabled:cursor-default"
+              aria-expanded={isOpen}
+              disabled={!row.offenders.length}
+              onClick={() => setOpen(isOpen ? null : row.key)}
+            >
+              <span className="text-sm flex items-center gap-1">
+                <ChevronRight
+                  className={`h-3 w-3 transition-transform ${
+                    isOpen ? "rotate-90" : ""
+                  } ${row.offenders.length ? "" : "invisible"}`}
+                />
+                {row.label}
+              </span>
+              <Badge className={LEVEL_CLASS[row.level]}>{row.summary}</Badge>
+            </button>
+            {isOpen && (
+              <ul className="mt-1 ml-4 max-h-40 overflow-auto text-xs space-y-0.5">
+                {row.offenders.map((o, i) => (
+                  <li key={`${o.trainId}-${i}`}>
+                    <button
+                      type="button"
+                      className="underline"
+                      onClick={() => onSelectTrain(o.trainId)}
+                    >
+                      {o.trainId}
+                    </button>{" "}
+                    <span className="text-muted-foreground">{o.detail}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
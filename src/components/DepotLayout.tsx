@@ -0,0 +1,166 @@
+import { useMemo, useState, type DragEvent } from "react";
+import { ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  DEPOT_LAYOUT,
+  bayLabel,
+  blockersOf,
+  depotOccupancy,
+} from "@/lib/depot";
+import type { ShuntPlan } from "@/lib/shunting";
+import type { RankedTrain, Trainset } from "@/lib/types";
+
+type Props = {
+  trains: RankedTrain[];
+  shunting: ShuntPlan;
+  // Re-stable by drag and drop; omit for a read-only layout
+  onMove?: (trainId: string, depot: Trainset["stabledAt"], bay: string) => void;
+  onSelectTrain: (trainId: string) => void;
+};
+
+export default function DepotLayout({
+  trains,
+  shunting,
+  onMove,
+  onSelectTrain,
+}: Props) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const occupancy = useMemo(() => depotOccupancy(trains), [trains]);
+  const blockers = useMemo(() => blockersOf(trains), [trains]);
+  const releases = shunting.moves.filter((m) => m.kind === "release");
+  const exitIndex = new Map(releases.map((m, i) => [m.trainId, i + 1]));
+  const movedAside = new Set(
+    shunting.moves.filter((m) => m.kind === "aside").map((m) => m.trainId)
+  );
+  const blockedById = new Map(trains.map((r) => [r.id, r.blocked]));
+
+  function chip(t: Trainset) {
+    const order = exitIndex.get(t.id);
+    const inFront = blockers.get(t.id) ?? [];
+    // inducted but parked behind a train that is not leaving tonight
+    const hemmedIn =
+      order !== undefined && inFront.some((b) => !exitIndex.has(b));
+    const tone =
+      order !== undefined
+        ? hemmedIn
+          ? "bg-amber-500 text-white"
+          : "bg-green-600 text-white"
+        : movedAside.has(t.id)
+        ? "bg-slate-300 text-slate-900 ring-2 ring-amber-500"
+        : blockedById.get(t.id)
+        ? "bg-red-600 text-white"
+        : "bg-muted";
+    return (
+      <button
+        key={t.id}
+        type="button"
+        draggable={!!onMove}
+        onDragStart={(e) => e.dataTransfer.setData("text/plain", t.id)}
+        onClick={() => onSelectTrain(t.id)}
+        title={[
+          t.id,
+          order !== undefined && `exits #${order}`,
+          inFront.length > 0 && `behind ${inFront.join(", ")}`,
+          movedAside.has(t.id) && "moved aside to clear the way",
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+        className={`rounded px-1.5 py-0.5 text-xs font-mono ${
+          onMove ? "cursor-grab" : ""
+        } ${tone}`}
+      >
+        {order !== undefined && <span className="mr-1">#{order}</span>}
+        {t.id.replace("KMRL-", "")}
+      </button>
+    );
+  }
+
+  function dropProps(
+    depot: Trainset["stabledAt"],
+    bay: string,
+    conflict: boolean
+  ) {
+    const key = `${depot}/${bay}`;
+    return {
+      onDragOver: (e: DragEvent) => {
+        e.preventDefault();
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget((d) => (d === key ? null : d)),
+      onDrop: (e: DragEvent) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const id = e.dataTransfer.getData("text/plain");
+        if (id) onMove?.(id, depot, bay);
+      },
+      className: `min-h-8 flex-1 rounded border border-dashed p-1 flex flex-wrap items-center gap-1 ${
+        dropTarget === key
+          ? "border-primary bg-primary/10"
+          : conflict
+          ? "border-red-600"
+          : ""
+      }`,
+    };
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Badge className="bg-green-600 hover:bg-green-600">#n Inducted</Badge>
+        <Badge className="bg-amber-500 hover:bg-amber-500">
+          Inducted, blocked in
+        </Badge>
+        <Badge variant="outline" className="ring-2 ring-amber-500">
+          Moved aside
+        </Badge>
+        <Badge className="bg-red-600 hover:bg-red-600">Unfit</Badge>
+        <span className="ml-auto">
+          Shunting:{" "}
+          <b className="text-foreground">
+            {shunting.moves.length} moves, {shunting.minutes} min
+          </b>{" "}
+          · drag a train onto a bay to re-stable it
+        </span>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {occupancy.map(({ depot, lines, unplaced }) => (
+          <div key={depot} className="space-y-1">
+            <div className="text-sm font-medium">
+              {DEPOT_LAYOUT[depot].label}
+            </div>
+            {lines.map(({ line, slots }) => (
+              <div key={line} className="flex items-center gap-1">
+                <span className="w-6 text-xs text-muted-foreground">
+                  L{line + 1}
+                </span>
+                {/* deepest bay on the left, exit on the right */}
+                {[...slots.keys()].reverse().map((slot) => {
+                  const bay = bayLabel(depot, line, slot);
+                  const here = slots[slot];
+                  return (
+                    <div
+                      key={bay}
+                      {...dropProps(depot, bay, here.length > 1)}
+                      title={bay}
+                    >
+                      <span className="text-[10px] text-muted-foreground">
+                        {bay}
+                      </span>
+                      {here.map(chip)}
+                    </div>
+                  );
+                })}
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              </div>
+            ))}
+            {unplaced.length > 0 && (
+              <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-1 pt-1">
+                No bay: {unplaced.map(chip)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { HealthRow } from "@/lib/health";
+import type { PlanDiff } from "@/lib/plans";
+
+const MIN_REASON = 10;
+
+type Props = {
+  night: string;
+  version: number; // the version finalising will create
+  red: HealthRow[]; // failing checks that block finalisation
+  diff: PlanDiff | null; // changes against the previous version, when revising
+  canOverride: boolean; // may finalise past red checks
+  onConfirm: (reasons: {
+    overrideReason: string | null; // finalise past red checks
+    revisionNote: string | null; // why the previous version is replaced
+  }) => void;
+  onClose: () => void;
+};
+
+export default function FinaliseGate({
+  night,
+  version,
+  red,
+  diff,
+  canOverride,
+  onConfirm,
+  onClose,
+}: Props) {
+  const [reason, setReason] = useState("");
+  const [revisionNote, setRevisionNote] = useState("");
+  const ready =
+    (!red.length || (canOverride && reason.trim().length >= MIN_REASON)) &&
+    (!diff || revisionNote.trim().length >= MIN_REASON);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <aside className="relative h-full w-full max-w-md overflow-auto bg-background border-l p-6 space-y-4 shadow-xl">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">
+            Finalise night of {night} (v{version})
+          </h2>
+          <Button size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {diff && (
+          <div className="space-y-2 text-sm">
+            <div>
+              Version {version - 1} is already finalised. This revision replaces
+              it and needs both sign-offs again.
+            </div>
+            <div className="rounded-md border p-2 text-xs space-y-1">
+              {[...diff.inputs, ...diff.metrics].map((c) => (
+                <div key={c.label}>
+                  {c.label}: {c.from} → {c.to}
+                </div>
+              ))}
+              {diff.decisions.map((c) => (
+                <div key={c.trainId}>
+                  {c.trainId}: {c.from ?? "n/a"} → {c.to ?? "n/a"}
+                </div>
+              ))}
+              {!diff.inputs.length &&
+                !diff.metrics.length &&
+                !diff.decisions.length && (
+                  <div className="text-muted-foreground">
+                    Same plan as version {version - 1}.
+                  </div>
+                )}
+            </div>
+            <Textarea
+              placeholder="What changed and why (kept with the new version)"
+              value={revisionNote}
+              onChange={(e) => setRevisionNote(e.target.value)}
+            />
+          </div>
+        )}
+
+        {red.length > 0 && (
+          <div className="text-sm">
+            {red.length} constraint check{red.length === 1 ? " is" : "s are"}{" "}
+            red.{" "}
+            {canOverride
+              ? "Fix the plan, or record why it is safe to finalise anyway."
+              : "Fix the plan; only a depot controller can finalise past red checks."}
+          </div>
+        )}
+        <ul className="space-y-2 text-sm">
+          {red.map((row) => (
+            <li key={row.key} className="rounded-md border p-2">
+              <div className="font-medium text-destructive">
+                {row.label}: {row.summary}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {row.offenders
+                  .slice(0, 6)
+                  .map((o) => `${o.trainId} (${o.detail})`)
+                  .join(", ")}
+                {row.offenders.length > 6 &&
+                  ` and ${row.offenders.length - 6} more`}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {red.length > 0 && canOverride && (
+          <Textarea
+            placeholder="Override reason (recorded in the audit log)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        )}
+        <div className="flex gap-2">
+          <Button
+            variant={red.length ? "destructive" : "default"}
+            className="flex-1"
+            disabled={!ready}
+            onClick={() =>
+              onConfirm({
+                overrideReason: red.length ? reason.trim() : null,
+                revisionNote: diff ? revisionNote.trim() : null,
+              })
+            }
+          >
+            {red.length ? "Finalise with override" : `Finalise v${version}`}
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+        {!ready && (red.length === 0 || canOverride) && (
+          <div className="text-xs text-muted-foreground">
+            {red.length && diff
+              ? "An override reason and a revision note"
+              : red.length
+              ? "An override reason"
+              : "A revision note"}{" "}
+            of at least {MIN_REASON} characters{" "}
+            {red.length && diff ? "are" : "is"} required.
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ImportIssueList from "@/components/ImportIssueList";
+import {
+  FITNESS_DEPARTMENTS,
+  FITNESS_SCHEMA_VERSION,
+  applyFitnessImport,
+  parseFitnessJson,
+  type FitnessPreview,
+} from "@/lib/fitness";
+import type { Trainset } from "@/lib/types";
+
+type Props = {
+  trains: Trainset[];
+  onCommit: (next: Trainset[]) => void;
+};
+
+export default function FitnessImportCard({ trains, onCommit }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<FitnessPreview | null>(null);
+
+  async function handleUpload() {
+    if (!file) return;
+    const text = await file.text();
+    setPreview(
+      parseFitnessJson(
+        text,
+        file.name,
+        trains.map((t) => t.id)
+      )
+    );
+  }
+
+  function handleCommit() {
+    if (!preview) return;
+    onCommit(applyFitnessImport(trains, preview));
+    setPreview(null);
+  }
+
+  const errors = preview?.issues.filter((i) => i.level === "error") ?? [];
+  const byDept = preview
+    ? (Object.keys(FITNESS_DEPARTMENTS) as (keyof typeof FITNESS_DEPARTMENTS)[])
+        .map((d) => ({
+          label: FITNESS_DEPARTMENTS[d].label,
+          count: preview.certificates.filter((c) => c.department === d).length,
+        }))
+        .filter((d) => d.count > 0)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Upload Fitness JSON</CardTitle>
+        <CardDescription>
+          Rolling/Signalling/Telecom certificates (
+          <a
+            href={`/schemas/fitness-certificates.v${FITNESS_SCHEMA_VERSION}.json`}
+            target="_blank"
+            rel="noreferrer"
+            className="underline"
+          >
+            schema v{FITNESS_SCHEMA_VERSION}
+          </a>
+          )
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Input
+          type="file"
+          accept=".json"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setPreview(null);
+          }}
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!file}
+          onClick={handleUpload}
+        >
+          Upload
+        </Button>
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            {preview.fatal ? (
+              <div className="text-destructive">{preview.fatal}</div>
+            ) : (
+              <>
+                <div className="text-muted-foreground">
+                  {preview.certificates.length} valid certificates
+                  {byDept.length > 0 &&
+                    ` (${byDept.map((d) => `${d.count} ${d.label}`).join(", ")})`}
+                </div>
+                <ImportIssueList issues={preview.issues} prefix="#" />
+                <div className="text-xs text-muted-foreground">
+                  Older issues than the certificate on record are ignored.
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={!!preview.fatal || !preview.certificates.length}
+                onClick={handleCommit}
+              >
+                {errors.length
+                  ? `Commit (skip ${errors.length} records)`
+                  : "Commit"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setPreview(null)}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  HORIZON_NIGHTS,
+  type HorizonDecision,
+  type HorizonPlan,
+} from "@/lib/horizon";
+import { shiftNight } from "@/lib/overrides";
+import type { MaintenanceWindow } from "@/lib/types";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+const CELL_COLORS: Record<HorizonDecision, string> = {
+  Induct: "bg-green-600 text-white",
+  Standby: "bg-sky-200 text-sky-900 dark:bg-sky-900 dark:text-sky-100",
+  IBL: "bg-amber-300 text-amber-950",
+  Maintenance: "bg-violet-500 text-white",
+  Blocked: "bg-red-600 text-white",
+};
+
+const CELL_LETTERS: Record<HorizonDecision, string> = {
+  Induct: "I",
+  Standby: "S",
+  IBL: "IBL",
+  Maintenance: "M",
+  Blocked: "✕",
+};
+
+function nightLabel(night: string) {
+  return new Date(`${night}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+  });
+}
+
+type Props = {
+  plan: HorizonPlan;
+  startNight: string;
+  serviceDemand: number;
+  windows: MaintenanceWindow[];
+  onAddWindow: (w: MaintenanceWindow) => void;
+  onRemoveWindow: (id: string) => void;
+  onSelectTrain: (trainId: string) => void;
+  readOnly?: boolean; // list windows without adding or removing any
+};
+
+export default function HorizonGrid({
+  plan,
+  startNight,
+  serviceDemand,
+  windows,
+  onAddWindow,
+  onRemoveWindow,
+  onSelectTrain,
+  readOnly = false,
+}: Props) {
+  const trainIds = Object.keys(plan.cells);
+  const [trainId, setTrainId] = useState("");
+  const [night, setNight] = useState(startNight);
+  const [nights, setNights] = useState(1);
+  const [note, setNote] = useState("");
+
+  function addWindow() {
+    onAddWindow({
+      id: `mw-${Date.now().toString(36)}`,
+      trainId,
+      startNight: night,
+      nights,
+      note: note.trim(),
+      createdAt: new Date().toISOString(),
+    });
+    setNote("");
+  }
+
+  const upcoming = windows.filter(
+    (w) => shiftNight(w.startNight, w.nights) > startNight
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(CELL_COLORS) as HorizonDecision[]).map((d) => (
+          <span key={d} className="flex items-center gap-1">
+            <span
+              className={`inline-block w-3 h-3 rounded ${CELL_COLORS[d]}`}
+            />
+            {d}
+          </span>
+        ))}
+        <span className="text-muted-foreground">• deep clean that night</span>
+      </div>
+
+      <div className="overflow-auto max-h-[28rem]">
+        <table className="text-xs border-separate border-spacing-0.5">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left p-1 sticky left-0 bg-background">
+                Trainset
+              </th>
+              {plan.nights.map((n) => (
+                <th key={n.night} className="p-1 font-normal min-w-12">
+                  {nightLabel(n.night)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {trainIds.map((id) => (
+              <tr key={id}>
+                <td className="p-1 font-mono sticky left-0 bg-background">
+                  <button
+                    type="button"
+                    className="hover:underline"
+                    onClick={() => onSelectTrain(id)}
+                  >
+                    {id}
+                  </button>
+                </td>
+                {plan.cells[id].map((c, k) => (
+                  <td
+                    key={k}
+                    title={[
+                      `${plan.nights[k].night}: ${c.decision}`,
+                      c.cleaned ? "deep clean" : null,
+                      `weakest certificate ${c.fitnessDays}d`,
+                      c.note,
+                    ]
+                      .filter(Boolean)
+                      .join(" — ")}
+                    className={`p-1 text-center rounded ${
+                      CELL_COLORS[c.decision]
+                    }`}
+                  >
+                    {CELL_LETTERS[c.decision]}
+                    {c.cleaned && " •"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td className="p-1 text-muted-foreground sticky left-0 bg-background">
+                Inducted / {serviceDemand}
+              </td>
+              {plan.nights.map((n) => (
+                <td
+                  key={n.night}
+                  title={n.unmet.join("\n") || undefined}
+                  className={`p-1 text-center font-medium ${
+                    n.inducted < serviceDemand ? "text-destructive" : ""
+                  }`}
+                >
+                  {n.inducted}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="rounded-md border p-3 space-y-2">
+        <div className="font-medium">Maintenance windows</div>
+        {!readOnly && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              aria-label="Trainset"
+              className={selectClass}
+              value={trainId}
+              onChange={(e) => setTrainId(e.target.value)}
+            >
+              <option value="">Trainset…</option>
+              {trainIds.map((id) => (
+                <option key={id} value={id}>
+                  {id}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="First night"
+              className={selectClass}
+              value={night}
+              onChange={(e) => setNight(e.target.value)}
+            >
+              {Array.from({ length: HORIZON_NIGHTS }, (_, k) => {
+                const n = shiftNight(startNight, k);
+                return (
+                  <option key={n} value={n}>
+                    {nightLabel(n)}
+                  </option>
+                );
+              })}
+            </select>
+            <Input
+              type="number"
+              aria-label="Nights"
+              className="w-20"
+              min={1}
+              max={HORIZON_NIGHTS}
+              value={nights}
+              onChange={(e) =>
+                setNights(Math.max(1, Math.round(Number(e.target.value)) || 1))
+              }
+            />
+            <Input
+              placeholder="Work, e.g. bogie overhaul"
+              className="w-56"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button size="sm" disabled={!trainId} onClick={addWindow}>
+              Add window
+            </Button>
+          </div>
+        )}
+        {upcoming.length ? (
+          <ul className="space-y-1">
+            {upcoming.map((w) => (
+              <li key={w.id} className="flex items-center gap-2">
+                <span className="font-mono">{w.trainId}</span>
+                <span>
+                  {nightLabel(w.startNight)} for {w.nights} night
+                  {w.nights === 1 ? "" : "s"}
+                </span>
+                {w.note && (
+                  <span className="text-muted-foreground">{w.note}</span>
+                )}
+                {!readOnly && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 ml-auto"
+                    aria-label={`Remove window for ${w.trainId}`}
+                    onClick={() => onRemoveWindow(w.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            No upcoming maintenance windows.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
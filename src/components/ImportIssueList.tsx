@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import type { ImportIssue } from "@/lib/types";
+
+type Props = {
+  issues: ImportIssue[];
+  prefix?: string; // "L" for CSV lines, "#" for JSON records
+};
+
+export default function ImportIssueList({ issues, prefix = "L" }: Props) {
+  if (!issues.length) return null;
+  return (
+    <div className="max-h-32 overflow-auto rounded-md border p-2 space-y-1">
+      {issues.map((issue, i) => (
+        <div key={i} className="flex items-start gap-2 text-xs">
+          <Badge variant={issue.level === "error" ? "destructive" : "secondary"}>
+            {prefix}
+            {issue.row}
+          </Badge>
+          <span>{issue.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
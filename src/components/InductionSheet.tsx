@@ -0,0 +1,179 @@
+import { DEPOT_LAYOUT } from "@/lib/depot";
+import { PLAN_ROLES, PLAN_STATUS_LABELS, planStatus } from "@/lib/plans";
+import { exportRows, exportSignOff, type PlanExport } from "@/lib/planExport";
+import { clockTime, type ShuntPlan } from "@/lib/shunting";
+import type { PlanRole } from "@/lib/types";
+
+type Props = {
+  data: PlanExport;
+  shunting: ShuntPlan;
+};
+
+// Paper handover sheet for the depot; only shown when printing
+export default function InductionSheet({ data, shunting }: Props) {
+  const rows = exportRows(data);
+  const depots = Object.keys(DEPOT_LAYOUT) as (keyof typeof DEPOT_LAYOUT)[];
+  const releaseAt = new Map(
+    shunting.moves
+      .filter((m) => m.kind === "release")
+      .map((m) => [m.trainId, m.startMin])
+  );
+  const seq = new Map(data.exits.map((e, i) => [e.trainId, i + 1]));
+  const notes = rows.filter((r) => r.reason);
+  const { version: v, matches, changed } = exportSignOff(data);
+
+  return (
+    <div className="hidden print:block text-[11px] text-black space-y-4">
+      <div className="flex items-baseline justify-between border-b border-black pb-1">
+        <div className="text-base font-semibold">
+          KMRL Induction Sheet — night of {data.night}
+        </div>
+        <div>
+          {!v
+            ? "Not finalised"
+            : matches
+            ? `Version ${v.version} · ${PLAN_STATUS_LABELS[planStatus(v)]}`
+            : `Unsigned draft · differs from version ${v.version}`}
+          {" · "}printed {new Date(data.generatedAt).toLocaleString()}
+        </div>
+      </div>
+      <div>
+        {data.exits.length} of {data.serviceDemand} rakes inducted
+      </div>
+      {v && !matches && (
+        <div className="border border-black p-1 font-semibold">
+          This plan has changed since version {v.version} was finalised (
+          {changed.join(", ")}). It has not been signed off; finalise it again
+          before use.
+        </div>
+      )}
+
+      <section className="break-inside-avoid">
+        <h2 className="font-semibold mb-1">Exit order</h2>
+        <div className="grid grid-cols-3 gap-3">
+          {depots.map((d) => {
+            const steps = data.exits.filter((e) => e.depot === d);
+            return (
+              <div key={d}>
+                <div className="font-medium">{DEPOT_LAYOUT[d].label}</div>
+                {steps.length ? (
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-black text-left">
+                        <th className="pr-1">#</th>
+                        <th className="pr-1">Train</th>
+                        <th className="pr-1">Bay</th>
+                        <th className="pr-1">Out</th>
+                        <th>Move aside first</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {steps.map((s) => (
+                        <tr key={s.trainId} className="border-b">
+                          <td className="pr-1">{seq.get(s.trainId)}</td>
+                          <td className="pr-1 font-mono">{s.trainId}</td>
+                          <td className="pr-1">{s.bay}</td>
+                          <td className="pr-1">
+                            {releaseAt.has(s.trainId)
+                              ? clockTime(releaseAt.get(s.trainId)!)
+                              : "—"}
+                          </td>
+                          <td>{s.moveAside.join(", ") || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div>No departures.</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="break-inside-avoid">
+        <h2 className="font-semibold mb-1">Cleaning assignments</h2>
+        {data.cleaning.assignments.length ? (
+          <table>
+            <thead>
+              <tr className="border-b border-black text-left">
+                <th className="pr-3">Train</th>
+                <th className="pr-3">Shift</th>
+                <th className="pr-3">Bay</th>
+                <th>Start</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.cleaning.assignments.map((a) => (
+                <tr key={a.trainId} className="border-b">
+                  <td className="pr-3 font-mono">{a.trainId}</td>
+                  <td className="pr-3">{a.shift}</td>
+                  <td className="pr-3">{a.bay}</td>
+                  <td>{a.start}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div>No deep cleans scheduled.</div>
+        )}
+        {data.cleaning.missed.length > 0 && (
+          <div className="mt-1">
+            Due but unslotted: {data.cleaning.missed.join(", ")}
+          </div>
+        )}
+      </section>
+
+      <section className="break-inside-avoid">
+        <h2 className="font-semibold mb-1">
+          Overrides, blocks &amp; hold-backs
+        </h2>
+        {notes.length ? (
+          <ul className="list-disc pl-4">
+            {notes.map((r) => (
+              <li key={r.trainId}>
+                <span className="font-mono">{r.trainId}</span> ({r.decision}):{" "}
+                {r.reason}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div>None.</div>
+        )}
+      </section>
+
+      <section className="break-inside-avoid">
+        <h2 className="font-semibold mb-1">Open alerts</h2>
+        {data.alerts.length ? (
+          <ul className="list-disc pl-4">
+            {data.alerts.map((a) => (
+              <li key={a.key}>
+                [{a.level.toUpperCase()}] {a.text}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div>None.</div>
+        )}
+      </section>
+
+      <section className="break-inside-avoid grid grid-cols-2 gap-8 pt-6">
+        {(Object.keys(PLAN_ROLES) as PlanRole[]).map((role) => {
+          const signed = matches
+            ? v?.signOffs.find((s) => s.role === role)
+            : undefined;
+          return (
+            <div key={role}>
+              <div className="border-b border-black h-6">
+                {signed &&
+                  `${signed.by}, ${new Date(signed.at).toLocaleString()}`}
+              </div>
+              <div>{PLAN_ROLES[role]}</div>
+            </div>
+          );
+        })}
+      </section>
+    </div>
+  );
+}
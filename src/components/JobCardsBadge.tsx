@@ -0,0 +1,76 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  JOB_LOAD_LIMIT,
+  isOverdue,
+  jobCardSummary,
+  jobLoad,
+  openJobCards,
+} from "@/lib/jobCards";
+import { JOB_CATEGORIES } from "@/lib/maximo";
+import type { Trainset } from "@/lib/types";
+
+type Props = {
+  train: Trainset;
+};
+
+// Open job-card count with a per-card breakdown on hover
+export default function JobCardsBadge({ train }: Props) {
+  const summary = jobCardSummary(train);
+  const cards = openJobCards(train);
+  const load = jobLoad(train);
+  const unrecorded = summary.open - cards.length;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex gap-1 cursor-default">
+          <Badge
+            variant={
+              summary.safetyCritical || load >= JOB_LOAD_LIMIT
+                ? "destructive"
+                : "default"
+            }
+          >
+            {summary.open} open
+          </Badge>
+          {summary.safetyCritical > 0 && (
+            <Badge variant="destructive">{summary.safetyCritical} safety</Badge>
+          )}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="right" className="max-w-sm text-left">
+        {summary.open ? (
+          <div className="space-y-1">
+            {cards.map((wo) => (
+              <div key={wo.woId}>
+                <span className="font-mono">{wo.woId}</span> P{wo.priority}{" "}
+                {JOB_CATEGORIES[wo.category].label}
+                {wo.safetyCritical && " · safety-critical"}
+                {wo.description && ` — ${wo.description}`}
+                <div className="opacity-80">
+                  {wo.estimatedHours !== null && `${wo.estimatedHours}h est.`}
+                  {wo.targetCloseAt &&
+                    ` · close by ${wo.targetCloseAt.slice(0, 10)}`}
+                  {isOverdue(wo) && " (overdue)"}
+                </div>
+              </div>
+            ))}
+            {unrecorded > 0 && <div>{unrecorded} without a Maximo record</div>}
+            <div className="border-t border-primary-foreground/30 pt-1">
+              {summary.hours ? `${summary.hours}h estimated · ` : ""}
+              load {load.toFixed(1)} of {JOB_LOAD_LIMIT}
+              {summary.overdue ? ` · ${summary.overdue} overdue` : ""}
+            </div>
+          </div>
+        ) : (
+          "No open job cards"
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
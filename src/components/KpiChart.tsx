@@ -0,0 +1,133 @@
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RTooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { KPI_RANGES, kpiSeries, type KpiRange } from "@/lib/kpi";
+import type { NightKpi } from "@/lib/types";
+
+// Percentages on the left axis, counts and cost units on the right
+const SERIES: {
+  key: keyof NightKpi;
+  label: string;
+  color: string;
+  axis: "pct" | "count";
+  dashed?: boolean;
+}[] = [
+  {
+    key: "availability",
+    label: "Availability %",
+    color: "#0ea5e9",
+    axis: "pct",
+  },
+  { key: "punctuality", label: "Punctuality %", color: "#22c55e", axis: "pct" },
+  {
+    key: "brandingCompliance",
+    label: "Branding SLA %",
+    color: "#ec4899",
+    axis: "pct",
+  },
+  {
+    key: "plannedInducted",
+    label: "Planned rakes",
+    color: "#8b5cf6",
+    axis: "count",
+    dashed: true,
+  },
+  {
+    key: "actualInducted",
+    label: "Actual rakes",
+    color: "#8b5cf6",
+    axis: "count",
+  },
+  {
+    key: "shuntingCost",
+    label: "Shunting (min)",
+    color: "#f59e0b",
+    axis: "count",
+  },
+];
+
+type Props = {
+  history: NightKpi[];
+  lastNight: string;
+};
+
+export default function KpiChart({ history, lastNight }: Props) {
+  const [range, setRange] = useState<KpiRange>(14);
+  const [hidden, setHidden] = useState<Set<string>>(
+    () => new Set(["shuntingCost", "brandingCompliance"])
+  );
+  const data = kpiSeries(history, range, lastNight);
+  const recorded = data.filter((d) => d.finalisedAt || d.actualsImportedAt);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {KPI_RANGES.map((r) => (
+          <Button
+            key={r}
+            size="sm"
+            variant={r === range ? "default" : "outline"}
+            className="h-7 px-2 text-xs"
+            onClick={() => setRange(r)}
+          >
+            {r}d
+          </Button>
+        ))}
+      </div>
+      <div className="h-40">
+        {recorded.length ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="day" />
+              <YAxis yAxisId="pct" domain={[0, 100]} />
+              <YAxis yAxisId="count" orientation="right" />
+              <RTooltip />
+              <Legend
+                onClick={(e) => {
+                  const key = String(e.dataKey);
+                  setHidden((prev) => {
+                    const next = new Set(prev);
+                    if (!next.delete(key)) next.add(key);
+                    return next;
+                  });
+                }}
+              />
+              {SERIES.map((s) => (
+                <Line
+                  key={s.key}
+                  yAxisId={s.axis}
+                  type="monotone"
+                  dataKey={s.key}
+                  name={s.label}
+                  stroke={s.color}
+                  strokeDasharray={s.dashed ? "4 3" : undefined}
+                  hide={hidden.has(s.key)}
+                  dot={range <= 14}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            No nights recorded in this range. Finalise tonight's plan or import
+            service actuals.
+          </div>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {recorded.length} of {range} nights recorded · click a legend entry to
+        show or hide it
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MAP_PROVIDERS,
+  mapSettingsProblem,
+  type MapProvider,
+  type MapSettings,
+} from "@/lib/mapConfig";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+type Props = {
+  settings: MapSettings;
+  onSave: (settings: MapSettings) => void;
+  onReset: () => void;
+};
+
+export default function MapSettingsForm({ settings, onSave, onReset }: Props) {
+  const [draft, setDraft] = useState(settings);
+  const problem = mapSettingsProblem(draft);
+  const set = (patch: Partial<MapSettings>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="map-provider" className="text-muted-foreground">
+          Map provider
+        </label>
+        <select
+          id="map-provider"
+          className={selectClass}
+          value={draft.provider}
+          onChange={(e) => set({ provider: e.target.value as MapProvider })}
+        >
+          {(Object.keys(MAP_PROVIDERS) as MapProvider[]).map((p) => (
+            <option key={p} value={p}>
+              {MAP_PROVIDERS[p]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {draft.provider !== "schematic" && (
+        <Input
+          type="password"
+          placeholder={
+            draft.provider === "custom"
+              ? "Mapbox access token (only for mapbox:// styles)"
+              : "Mapbox access token (pk.…)"
+          }
+          value={draft.token}
+          onChange={(e) => set({ token: e.target.value.trim() })}
+        />
+      )}
+      {draft.provider === "custom" && (
+        <>
+          <Input
+            placeholder="Style JSON URL, e.g. /tiles/style.json"
+            value={draft.styleUrl}
+            onChange={(e) => set({ styleUrl: e.target.value.trim() })}
+          />
+          <Input
+            placeholder="or raster tiles, e.g. /tiles/{z}/{x}/{y}.png"
+            value={draft.tilesUrl}
+            onChange={(e) => set({ tilesUrl: e.target.value.trim() })}
+          />
+          <Input
+            placeholder="Glyphs URL for labels (optional), e.g. /fonts/{fontstack}/{range}.pbf"
+            value={draft.glyphsUrl}
+            onChange={(e) => set({ glyphsUrl: e.target.value.trim() })}
+          />
+        </>
+      )}
+      {problem && <div className="text-xs text-destructive">{problem}</div>}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={!!problem} onClick={() => onSave(draft)}>
+          Apply
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onReset}>
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
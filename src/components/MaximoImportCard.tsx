@@ -0,0 +1,151 @@
+import { useState } from "react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ImportIssueList from "@/components/ImportIssueList";
+import {
+  applyMaximoImport,
+  parseMaximoCsv,
+  type MaximoPreview,
+} from "@/lib/maximo";
+import type { Trainset } from "@/lib/types";
+
+type Props = {
+  trains: Trainset[];
+  onCommit: (next: Trainset[]) => void;
+};
+
+export default function MaximoImportCard({ trains, onCommit }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<MaximoPreview | null>(null);
+
+  async function handleUpload() {
+    if (!file) return;
+    const text = await file.text();
+    setPreview(
+      parseMaximoCsv(
+        text,
+        file.name,
+        trains.map((t) => t.id)
+      )
+    );
+  }
+
+  function handleCommit() {
+    if (!preview) return;
+    onCommit(applyMaximoImport(trains, preview));
+    setPreview(null);
+  }
+
+  const errors = preview?.issues.filter((i) => i.level === "error") ?? [];
+  const open = preview ? Object.values(preview.openByTrain).flat() : [];
+  const safetyCount = open.filter((wo) => wo.safetyCritical).length;
+  const changes = preview
+    ? trains
+        .map((t) => ({
+          id: t.id,
+          before: t.jobCardsOpen,
+          after: preview.openByTrain[t.id]?.length ?? 0,
+        }))
+        .filter((c) => c.before !== c.after)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Upload Maximo CSV</CardTitle>
+        <CardDescription>
+          WO_ID, TRAIN_ID, STATUS, PRIORITY, CATEGORY, SAFETY_CRITICAL...
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Input
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setPreview(null);
+          }}
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!file}
+          onClick={handleUpload}
+        >
+          Upload
+        </Button>
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            {preview.fatal ? (
+              <div className="text-destructive">{preview.fatal}</div>
+            ) : (
+              <>
+                <div className="text-muted-foreground">
+                  {preview.totalRows} rows · {preview.accepted.length} valid ·{" "}
+                  {open.length} open across{" "}
+                  {Object.keys(preview.openByTrain).length} trainsets
+                  {safetyCount > 0 && ` · ${safetyCount} safety-critical`}
+                </div>
+
+                <ImportIssueList issues={preview.issues} />
+
+                {changes.length > 0 && (
+                  <div className="max-h-32 overflow-auto rounded-md border p-2 text-xs">
+                    {changes.map((c) => (
+                      <div key={c.id} className="flex justify-between">
+                        <span>{c.id}</span>
+                        <span>
+                          {c.before} → {c.after} open
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="text-xs text-muted-foreground">
+                  The export is treated as a full snapshot: trainsets without
+                  open rows are reset to 0.
+                </div>
+                {errors.length > 0 && (
+                  <div className="text-xs text-destructive">
+                    Fix the {errors.length} rows with errors and upload again: a
+                    skipped row could clear a train's open work orders.
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={
+                  !!preview.fatal || !preview.accepted.length || !!errors.length
+                }
+                onClick={handleCommit}
+              >
+                Commit
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setPreview(null)}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RTooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { HORIZON_NIGHTS, type HorizonPlan } from "@/lib/horizon";
+import { kmSinceService, mileageHistogram, mileageStats } from "@/lib/mileage";
+import { DAILY_SERVICE_KM } from "@/lib/scenarios";
+import type { Trainset } from "@/lib/types";
+
+const WEEK = `After ${HORIZON_NIGHTS} nights`;
+
+const SERIES = [
+  { key: "Now", color: "#94a3b8" },
+  { key: "After tonight", color: "#8b5cf6" },
+  { key: WEEK, color: "#0ea5e9" },
+];
+
+type Props = {
+  trains: Trainset[];
+  inducted: Set<string>;
+  horizon: HorizonPlan;
+  serviceIntervalKm: number;
+};
+
+// Fleet mileage spread now, after tonight's plan and after the horizon plan
+export default function MileageChart({
+  trains,
+  inducted,
+  horizon,
+  serviceIntervalKm,
+}: Props) {
+  const now = trains.map((t) => t.mileageKm);
+  const tonight = trains.map(
+    (t) => t.mileageKm + (inducted.has(t.id) ? DAILY_SERVICE_KM : 0)
+  );
+  const week = trains.map((t) => horizon.endMileageKm[t.id] ?? t.mileageKm);
+  const data = mileageHistogram({
+    Now: now,
+    "After tonight": tonight,
+    [WEEK]: week,
+  });
+  const stats = mileageStats(now);
+  const overdue = trains.filter(
+    (t) => kmSinceService(t) >= serviceIntervalKm
+  ).length;
+  const km = (x: number) => `${Math.round(x).toLocaleString()} km`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>Fleet mean {km(stats.mean)}</span>
+        <span>
+          Range {km(stats.min)} – {km(stats.max)}
+        </span>
+        <span>
+          Std. dev. {km(stats.sd)} → {km(mileageStats(tonight).sd)} tonight →{" "}
+          {km(mileageStats(week).sd)} in {HORIZON_NIGHTS} nights
+        </span>
+        <span className={overdue ? "text-destructive" : ""}>
+          {overdue} past the {km(serviceIntervalKm)} service interval
+        </span>
+      </div>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis allowDecimals={false} />
+            <RTooltip />
+            <Legend />
+            {SERIES.map((s) => (
+              <Bar key={s.key} dataKey={s.key} fill={s.color} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Spread by night:{" "}
+        {horizon.nights.map((n) => km(n.mileageSpreadKm)).join(" → ")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  OVERRIDE_DECISIONS,
+  OVERRIDE_REASONS,
+  describeOverride,
+} from "@/lib/overrides";
+import { blockLabel } from "@/lib/scoring";
+import type {
+  Override,
+  OverrideDecision,
+  OverrideReason,
+  RankedTrain,
+} from "@/lib/types";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+type Props = {
+  train: RankedTrain;
+  night: string;
+  current?: Override;
+  author: string; // the signed-in user
+  onApply: (o: Override) => void;
+  onClear: () => void;
+};
+
+export default function OverrideForm({
+  train,
+  night,
+  current,
+  author,
+  onApply,
+  onClear,
+}: Props) {
+  const [decision, setDecision] = useState<OverrideDecision>(
+    current?.decision ?? (train.blocked ? "IBL" : "Induct")
+  );
+  const [reason, setReason] = useState<OverrideReason | "">(
+    current?.reason ?? ""
+  );
+  const [comment, setComment] = useState(current?.comment ?? "");
+
+  // Hard constraints: an expired certificate or open safety-critical card can't be overridden into service
+  const problems = [
+    !reason && "Pick a reason code.",
+    reason === "OTHER" && !comment.trim() && "Explain the reason in a comment.",
+    train.blocked &&
+      decision === "Induct" &&
+      `Blocked on ${blockLabel(train)}; it cannot be forced into service.`,
+  ].filter((p): p is string => !!p);
+
+  function apply() {
+    if (problems.length || !reason) return;
+    onApply({
+      night,
+      trainId: train.id,
+      decision,
+      reason,
+      comment: comment.trim(),
+      author,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  return (
+    <div className="space-y-2 p-2 border-t">
+      <div className="text-xs font-medium">
+        Manual override for night of {night}
+      </div>
+      {current && (
+        <div className="text-xs text-muted-foreground">
+          Current: {describeOverride(current)}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={selectClass}
+          value={decision}
+          onChange={(e) => setDecision(e.target.value as OverrideDecision)}
+        >
+          {OVERRIDE_DECISIONS.map((d) => (
+            <option key={d} value={d}>
+              {d}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={reason}
+          onChange={(e) => setReason(e.target.value as OverrideReason)}
+        >
+          <option value="" disabled>
+            Reason…
+          </option>
+          {(Object.keys(OVERRIDE_REASONS) as OverrideReason[]).map((r) => (
+            <option key={r} value={r}>
+              {OVERRIDE_REASONS[r]}
+            </option>
+          ))}
+        </select>
+        <Input
+          className="flex-1 min-w-[160px]"
+          placeholder="Comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+        />
+        <Button size="sm" disabled={problems.length > 0} onClick={apply}>
+          Apply
+        </Button>
+        {current && (
+          <Button size="sm" variant="outline" onClick={onClear}>
+            Clear
+          </Button>
+        )}
+      </div>
+      {problems.length > 0 && (reason || comment || current) && (
+        <ul className="text-xs text-destructive list-disc pl-4">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  PLAN_ROLES,
+  PLAN_STATUS_LABELS,
+  planDiff,
+  planStatus,
+  signOffProblem,
+  type PlanStatus,
+} from "@/lib/plans";
+import type { PlanRole, PlanVersion, User } from "@/lib/types";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 py-1 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+const STATUS_VARIANTS: Record<
+  PlanStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  "awaiting-planner": "outline",
+  "awaiting-controller": "secondary",
+  approved: "default",
+};
+
+type Props = {
+  plans: PlanVersion[]; // newest night first, versions in order
+  night: string; // tonight
+  user: User;
+  onSign: (v: PlanVersion, role: PlanRole, comment: string) => void;
+};
+
+export default function PlanHistory({ plans, night, user, onSign }: Props) {
+  const nights = [...new Set(plans.map((p) => p.night))];
+  const [shownNight, setShownNight] = useState(night);
+  const selectedNight = nights.includes(shownNight) ? shownNight : nights[0];
+  const versions = plans.filter((p) => p.night === selectedNight);
+  const latest = versions[versions.length - 1];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = versions.find((v) => v.id === selectedId) ?? latest;
+  const previous = selected
+    ? versions.find((v) => v.version === selected.version - 1)
+    : undefined;
+  const diff = selected && previous ? planDiff(previous, selected) : null;
+  const [comment, setComment] = useState("");
+
+  if (!plans.length) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No finalised plans yet. "Finalise Night" freezes tonight's plan as
+        version 1.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <label htmlFor="plan-night" className="text-xs text-muted-foreground">
+          Night
+        </label>
+        <select
+          id="plan-night"
+          className={selectClass}
+          value={selectedNight}
+          onChange={(e) => {
+            setShownNight(e.target.value);
+            setSelectedId(null);
+          }}
+        >
+          {nights.map((n) => (
+            <option key={n} value={n}>
+              {n}
+              {n === night ? " (tonight)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left p-1">Version</th>
+            <th className="text-left p-1">Finalised</th>
+            <th className="text-left p-1">Inducted</th>
+            <th className="text-left p-1">Status</th>
+            <th className="text-left p-1">Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {versions.map((v) => {
+            const status = planStatus(v);
+            return (
+              <tr
+                key={v.id}
+                className={`border-t cursor-pointer ${
+                  v.id === selected?.id ? "bg-muted/60" : "hover:bg-muted/30"
+                }`}
+                onClick={() => setSelectedId(v.id)}
+              >
+                <td className="p-1 font-mono">
+                  v{v.version}
+                  {v !== latest && (
+                    <span className="text-muted-foreground"> superseded</span>
+                  )}
+                </td>
+                <td className="p-1">
+                  {new Date(v.createdAt).toLocaleString()} by {v.createdBy}
+                </td>
+                <td className="p-1">{v.inducted.length}</td>
+                <td className="p-1">
+                  <Badge variant={STATUS_VARIANTS[status]}>
+                    {PLAN_STATUS_LABELS[status]}
+                  </Badge>
+                </td>
+                <td className="p-1 text-muted-foreground">
+                  {v.revisionNote ?? ""}
+                  {v.overrideReason && (
+                    <div className="text-destructive">
+                      Past red checks: {v.overrideReason}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {selected && (
+        <div className="rounded-md border p-3 space-y-3">
+          <div className="font-medium">
+            Version {selected.version} · {selected.inducted.length} of{" "}
+            {selected.inputs.serviceDemand} rakes
+          </div>
+          <div className="text-xs font-mono text-muted-foreground">
+            {selected.inducted.join(", ") || "No trains inducted"}
+          </div>
+
+          <div className="space-y-1">
+            {(Object.keys(PLAN_ROLES) as PlanRole[]).map((role) => {
+              const signed = selected.signOffs.find((s) => s.role === role);
+              const problem = signOffProblem(selected, latest, role, user);
+              return (
+                <div key={role} className="flex items-center gap-2 text-xs">
+                  <span className="w-32">{PLAN_ROLES[role]}</span>
+                  {signed ? (
+                    <span>
+                      ✓ {signed.by}, {new Date(signed.at).toLocaleString()}
+                      {signed.comment && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          — {signed.comment}
+                        </span>
+                      )}
+                    </span>
+                  ) : (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7"
+                        disabled={!!problem}
+                        title={problem ?? undefined}
+                        onClick={() => {
+                          onSign(selected, role, comment);
+                          setComment("");
+                        }}
+                      >
+                        Sign as {PLAN_ROLES[role].toLowerCase()}
+                      </Button>
+                      {problem && (
+                        <span className="text-muted-foreground">{problem}</span>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {(Object.keys(PLAN_ROLES) as PlanRole[]).some(
+            (role) => !signOffProblem(selected, latest, role, user)
+          ) && (
+            <Input
+              placeholder="Comment (optional)"
+              className="h-8"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          )}
+
+          {diff && (
+            <div className="space-y-1 text-xs">
+              <div className="font-medium">
+                Changes from version {previous!.version}
+              </div>
+              {[...diff.inputs, ...diff.metrics].map((c) => (
+                <div key={c.label}>
+                  {c.label}: {c.from} → {c.to}
+                </div>
+              ))}
+              {diff.decisions.map((c) => (
+                <div key={c.trainId}>
+                  {c.trainId}: {c.from ?? "n/a"} → {c.to ?? "n/a"}
+                </div>
+              ))}
+              {!diff.inputs.length &&
+                !diff.metrics.length &&
+                !diff.decisions.length && (
+                  <div className="text-muted-foreground">No changes.</div>
+                )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
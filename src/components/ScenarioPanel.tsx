@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { SCORE_COMPONENTS } from "@/lib/scoring";
+import { decisionChanges } from "@/lib/scenarios";
+import type { Scenario, ScenarioMetrics, Weights } from "@/lib/types";
+
+const MAX_COMPARE = 3;
+
+// Metric rows in the comparison; `better` says which direction is an improvement
+const METRICS: {
+  key: keyof ScenarioMetrics;
+  label: string;
+  unit: string;
+  better: "up" | "down";
+}[] = [
+  { key: "inducted", label: "Rakes inducted", unit: "", better: "up" },
+  { key: "shuntingCost", label: "Shunting", unit: " min", better: "down" },
+  { key: "brandingSla", label: "Branding SLA", unit: "%", better: "up" },
+  {
+    key: "mileageSpreadKm",
+    label: "Mileage spread (σ)",
+    unit: " km",
+    better: "down",
+  },
+];
+
+type Props = {
+  scenarios: Scenario[];
+  current: Scenario; // live, unsaved planner state
+  onSave: (name: string) => void;
+  onLoad: (s: Scenario) => void;
+  onDelete: (id: string) => void;
+  readOnly?: boolean; // compare only: no save, load or delete
+};
+
+export default function ScenarioPanel({
+  scenarios,
+  current,
+  onSave,
+  onLoad,
+  onDelete,
+  readOnly = false,
+}: Props) {
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const all = [current, ...scenarios];
+  const compared = selected
+    .map((id) => all.find((s) => s.id === id))
+    .filter((s): s is Scenario => !!s);
+  const base = compared[0];
+
+  function toggle(id: string, on: boolean) {
+    setSelected((prev) =>
+      on
+        ? [...prev.filter((p) => p !== id), id].slice(-MAX_COMPARE)
+        : prev.filter((p) => p !== id)
+    );
+  }
+
+  function delta(s: Scenario, m: (typeof METRICS)[number]) {
+    if (!base || s === base) return null;
+    const d = s.metrics[m.key] - base.metrics[m.key];
+    if (!d) return null;
+    const good = m.better === "up" ? d > 0 : d < 0;
+    return (
+      <span className={good ? "text-green-600" : "text-destructive"}>
+        {" "}
+        ({d > 0 ? "+" : ""}
+        {d}
+        {m.unit})
+      </span>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!readOnly && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Scenario name, e.g. Demand 20, no branding"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button
+            disabled={!name.trim()}
+            onClick={() => {
+              onSave(name.trim());
+              setName("");
+            }}
+          >
+            Save current
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-1 text-sm">
+        {all.map((s) => (
+          <div key={s.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`scenario-${s.id}`}
+              checked={selected.includes(s.id)}
+              onCheckedChange={(v) => toggle(s.id, !!v)}
+            />
+            <label htmlFor={`scenario-${s.id}`} className="flex-1">
+              {s.name}
+              <span className="text-xs text-muted-foreground">
+                {" "}
+                · demand {s.inputs.serviceDemand} · {s.metrics.inducted}{" "}
+                inducted
+                {s !== current &&
+                  ` · saved ${new Date(s.createdAt).toLocaleString()}`}
+              </span>
+            </label>
+            {s !== current && !readOnly && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => onLoad(s)}>
+                  Load
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setSelected((prev) => prev.filter((p) => p !== s.id));
+                    onDelete(s.id);
+                  }}
+                >
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+        <div className="text-xs text-muted-foreground">
+          Tick two or three to compare; the first ticked is the baseline.
+        </div>
+      </div>
+
+      {compared.length >= 2 && (
+        <div className="overflow-auto rounded-xl border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="text-left p-2"></th>
+                {compared.map((s) => (
+                  <th key={s.id} className="text-left p-2">
+                    {s.name}
+                    {s === base && (
+                      <Badge variant="secondary" className="ml-2">
+                        baseline
+                      </Badge>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t">
+                <td className="p-2 text-muted-foreground">Inputs</td>
+                {compared.map((s) => (
+                  <td key={s.id} className="p-2 text-xs">
+                    Demand {s.inputs.serviceDemand} · bays{" "}
+                    {s.inputs.cleaningBays} · reserve {s.inputs.minReserve}
+                    {s.inputs.respectBranding ? "" : " · branding off"}
+                    {s.inputs.minimiseShunting ? " · min. shunting" : ""}
+                    <div className="text-muted-foreground">
+                      {(Object.keys(s.inputs.weights) as (keyof Weights)[])
+                        .map(
+                          (k) =>
+                            `${SCORE_COMPONENTS[k].label} ${s.inputs.weights[
+                              k
+                            ].toFixed(2)}`
+                        )
+                        .join(", ")}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+              {METRICS.map((m) => (
+                <tr key={m.key} className="border-t">
+                  <td className="p-2 text-muted-foreground">{m.label}</td>
+                  {compared.map((s) => (
+                    <td key={s.id} className="p-2 tabular-nums">
+                      {s.metrics[m.key]}
+                      {m.unit}
+                      {delta(s, m)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-t align-top">
+                <td className="p-2 text-muted-foreground">Decision changes</td>
+                {compared.map((s) => {
+                  const changes = s === base ? [] : decisionChanges(base, s);
+                  return (
+                    <td key={s.id} className="p-2 text-xs">
+                      {s === base
+                        ? "—"
+                        : changes.length
+                        ? changes.map((c) => (
+                            <div key={c.trainId}>
+                              {c.trainId}: {c.from ?? "n/a"} → {c.to ?? "n/a"}
+                            </div>
+                          ))
+                        : "No changes"}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+          <div className="p-2 text-xs text-muted-foreground border-t">
+            Saved scenarios keep the plan as it was when saved; load one to
+            re-plan it against tonight's fleet.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
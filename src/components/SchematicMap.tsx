@@ -0,0 +1,101 @@
+import { CHAINAGE, ROUTE_KM, STATIONS, type TrainPosition } from "@/lib/route";
+
+type Props = {
+  trains: TrainPosition[];
+  selectedId: string | null;
+  onSelectTrain: (trainId: string) => void;
+};
+
+const WIDTH = 1000;
+const HEIGHT = 300;
+const PAD = 40;
+const LINE_Y = 110;
+// Train rows above the line, one per direction
+const ROW_OFFSET = { south: -18, north: -50 };
+
+function x(km: number) {
+  return PAD + (km / ROUTE_KM) * (WIDTH - 2 * PAD);
+}
+
+// Line diagram of Line 1 drawn without any map tiles: stations at their true
+// distance along the line and a row of trains above it for each direction.
+export default function SchematicMap({
+  trains,
+  selectedId,
+  onSelectTrain,
+}: Props) {
+  const last = STATIONS[STATIONS.length - 1].name;
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto min-h-[300px] rounded-lg bg-muted/30"
+      role="img"
+      aria-label="Line 1 schematic"
+    >
+      <line
+        x1={x(0)}
+        x2={x(ROUTE_KM)}
+        y1={LINE_Y}
+        y2={LINE_Y}
+        stroke="#0ea5e9"
+        strokeWidth={6}
+        strokeLinecap="round"
+      />
+      {(["south", "north"] as const).map((row) => (
+        <text
+          key={row}
+          x={4}
+          y={LINE_Y + ROW_OFFSET[row] + 4}
+          fontSize={10}
+          className="fill-muted-foreground"
+        >
+          {row === "south" ? "→" : "←"}
+        </text>
+      ))}
+      {STATIONS.map((s, i) => (
+        <g key={s.name} transform={`translate(${x(CHAINAGE[i])},${LINE_Y})`}>
+          <circle r={5} fill="#fff" stroke="#0ea5e9" strokeWidth={2} />
+          <text
+            transform="translate(4,14) rotate(50)"
+            className="fill-foreground"
+            fontSize={11}
+          >
+            {s.name}
+          </text>
+        </g>
+      ))}
+      {trains.map((t) => {
+        const south = t.towards === last;
+        const selected = t.trainId === selectedId;
+        return (
+          <g
+            key={t.trainId}
+            transform={`translate(${x(t.km)},${
+              LINE_Y + ROW_OFFSET[south ? "south" : "north"]
+            })`}
+            className="cursor-pointer"
+            onClick={() => onSelectTrain(t.trainId)}
+          >
+            <title>
+              {t.trainId} towards {t.towards}, next {t.next}
+            </title>
+            <circle
+              r={7}
+              fill={selected ? "#f59e0b" : "#16a34a"}
+              stroke="#fff"
+              strokeWidth={2}
+            />
+            <text
+              y={-11}
+              textAnchor="middle"
+              fontSize={10}
+              className="fill-foreground"
+            >
+              {t.trainId.replace("KMRL-", "")}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
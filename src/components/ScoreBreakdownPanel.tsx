@@ -0,0 +1,65 @@
+import {
+  SCORE_COMPONENTS,
+  describeBlocked,
+  explainAgainst,
+} from "@/lib/scoring";
+import type { RankedTrain } from "@/lib/types";
+
+type Props = {
+  train: RankedTrain;
+  above?: RankedTrain; // neighbour one rank higher
+  below?: RankedTrain; // neighbour one rank lower
+};
+
+export default function ScoreBreakdownPanel({ train, above, below }: Props) {
+  const { components } = train.breakdown;
+  // Full bar width = best possible score under the current weights
+  const maxScore = components.reduce((sum, c) => sum + c.weight, 0) || 1;
+
+  return (
+    <div className="space-y-3 p-2">
+      {train.blocked ? (
+        <div className="text-sm text-muted-foreground">
+          Not scored: {describeBlocked(train)}.
+        </div>
+      ) : (
+        <>
+          <div className="flex h-4 w-full overflow-hidden rounded-full bg-muted">
+            {components.map((c) => (
+              <div
+                key={c.key}
+                className={SCORE_COMPONENTS[c.key].color}
+                style={{ width: `${(c.contribution / maxScore) * 100}%` }}
+                title={`${
+                  SCORE_COMPONENTS[c.key].label
+                }: ${c.contribution.toFixed(3)}`}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1 text-xs">
+            {components.map((c) => (
+              <div key={c.key} className="flex items-center gap-2">
+                <span
+                  className={`h-2 w-2 rounded-full ${
+                    SCORE_COMPONENTS[c.key].color
+                  }`}
+                />
+                <span className="flex-1">{SCORE_COMPONENTS[c.key].label}</span>
+                <span className="text-muted-foreground tabular-nums">
+                  {c.raw.toFixed(2)} × {c.weight.toFixed(2)} ={" "}
+                  <span className="text-foreground">
+                    {c.contribution.toFixed(3)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      <div className="text-xs text-muted-foreground space-y-0.5">
+        {above && <div>{explainAgainst(train, above)}</div>}
+        {below && !train.blocked && <div>{explainAgainst(train, below)}</div>}
+      </div>
+    </div>
+  );
+}
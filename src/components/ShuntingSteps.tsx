@@ -0,0 +1,76 @@
+import { Badge } from "@/components/ui/badge";
+import { DEPOT_LAYOUT } from "@/lib/depot";
+import {
+  SHUNT_START_MIN,
+  SHUNT_WINDOW_MIN,
+  clockTime,
+  type ShuntPlan,
+} from "@/lib/shunting";
+
+type Props = {
+  plan: ShuntPlan;
+};
+
+export default function ShuntingSteps({ plan }: Props) {
+  if (!plan.moves.length) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        Nothing to shunt: no trains inducted.
+      </div>
+    );
+  }
+  const depots = Object.keys(plan.byDepot) as (keyof typeof DEPOT_LAYOUT)[];
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap gap-2 text-xs">
+        {depots.map((d) => (
+          <Badge
+            key={d}
+            variant={plan.late.includes(d) ? "destructive" : "secondary"}
+          >
+            {DEPOT_LAYOUT[d].label}: {plan.byDepot[d].moves} moves,{" "}
+            {plan.byDepot[d].minutes} min
+          </Badge>
+        ))}
+        <span className="text-muted-foreground self-center">
+          One crew per depot from {clockTime(SHUNT_START_MIN)}; first departure{" "}
+          {clockTime(SHUNT_START_MIN + SHUNT_WINDOW_MIN)}
+        </span>
+      </div>
+      <div className="max-h-64 overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left p-1">Start</th>
+              <th className="text-left p-1">Depot</th>
+              <th className="text-left p-1">Trainset</th>
+              <th className="text-left p-1">Move</th>
+              <th className="text-right p-1">Min</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.moves.map((m, i) => {
+              const late =
+                m.startMin + m.minutes > SHUNT_START_MIN + SHUNT_WINDOW_MIN;
+              return (
+                <tr
+                  key={`${m.trainId}-${i}`}
+                  className={`border-t ${late ? "text-destructive" : ""}`}
+                >
+                  <td className="p-1 font-mono">{clockTime(m.startMin)}</td>
+                  <td className="p-1">{DEPOT_LAYOUT[m.depot].label}</td>
+                  <td className="p-1 font-mono">{m.trainId}</td>
+                  <td className="p-1">
+                    {m.kind === "release" ? "Release" : "Move aside"}:{" "}
+                    {m.from || "?"} → {m.to}
+                  </td>
+                  <td className="p-1 text-right">{m.minutes}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
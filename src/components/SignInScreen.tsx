@@ -0,0 +1,67 @@
+import { LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { USER_ROLES, type IdentityProvider } from "@/lib/auth";
+
+type Props = {
+  provider: IdentityProvider;
+  loading: boolean;
+  error: string | null;
+  onSignIn: (userId?: string) => void;
+};
+
+export default function SignInScreen({
+  provider,
+  loading,
+  error,
+  onSignIn,
+}: Props) {
+  return (
+    <div className="dark min-h-screen bg-background text-foreground flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-sm">
+        <CardHeader>
+          <CardTitle>KMRL – AI Induction Planner</CardTitle>
+          <CardDescription>
+            {loading
+              ? "Checking sign-in…"
+              : provider.id === "none"
+              ? "Sign-in is not configured. Set VITE_AUTH_URL to the site's SSO gateway."
+              : `Sign in via ${provider.label}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {!loading && provider.id === "sso" && (
+            <Button className="w-full gap-2" onClick={() => onSignIn()}>
+              <LogIn className="h-4 w-4" /> Sign in
+            </Button>
+          )}
+          {!loading &&
+            provider.users.map((u) => (
+              <Button
+                key={u.id}
+                variant="outline"
+                className="w-full h-auto justify-start py-2 text-left"
+                onClick={() => onSignIn(u.id)}
+              >
+                <div>
+                  <div>
+                    {u.name} · {USER_ROLES[u.role].label}
+                  </div>
+                  <div className="text-xs text-muted-foreground font-normal whitespace-normal">
+                    {USER_ROLES[u.role].summary}
+                  </div>
+                </div>
+              </Button>
+            ))}
+          {error && <div className="text-sm text-destructive">{error}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { RefreshCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { SyncStatus } from "@/lib/types";
+
+const STATE_DOT: Record<SyncStatus["state"], string> = {
+  idle: "bg-slate-400",
+  syncing: "bg-amber-500 animate-pulse",
+  ok: "bg-green-500",
+  error: "bg-red-500",
+};
+
+function since(iso: string) {
+  const ms = Date.now() - new Date(iso).getTime();
+  if (ms < 60000) return "just now";
+  if (ms < 3600000) return `${Math.round(ms / 60000)}m ago`;
+  if (ms < 86400000) return `${Math.round(ms / 3600000)}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+type Props = {
+  status: SyncStatus;
+  source: string;
+  configured?: boolean; // false disables syncing
+  action?: string; // button label
+  onSync: () => void;
+};
+
+export default function SyncStatusRow({
+  status,
+  source,
+  configured = true,
+  action = "Sync",
+  onSync,
+}: Props) {
+  const syncing = status.state === "syncing";
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground flex items-center gap-2 min-w-0">
+          <span
+            className={`h-2 w-2 shrink-0 rounded-full ${
+              STATE_DOT[status.state]
+            }`}
+          />
+          <span className="truncate" title={`Source: ${source}`}>
+            {!configured
+              ? "Not configured"
+              : syncing
+              ? `Syncing${status.retries ? ` (retry ${status.retries})` : "…"}`
+              : status.lastSyncAt
+              ? `Synced ${since(status.lastSyncAt)} · ${status.records} records`
+              : "Never synced"}
+            {!syncing && status.retries > 0 && ` · ${status.retries} retries`}
+          </span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          disabled={syncing || !configured}
+          onClick={onSync}
+        >
+          <RefreshCcw className={`h-4 w-4 ${syncing ? "animate-spin" : ""}`} />{" "}
+          {action}
+        </Button>
+      </div>
+      {!syncing && status.state === "ok" && status.issues > 0 && (
+        <div className="text-xs text-amber-600">
+          {status.issues} row(s) skipped with errors
+        </div>
+      )}
+      {status.error && (
+        <div className="text-xs text-destructive">{status.error}</div>
+      )}
+      {status.healthy === false && (
+        <div className="text-xs text-destructive">
+          Source unreachable: {status.healthMessage}
+        </div>
+      )}
+      <div className="text-xs text-muted-foreground truncate">
+        Source: {source}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Button } from "@/components/ui/button";
+import ScoreBreakdownPanel from "@/components/ScoreBreakdownPanel";
+import type { TrainPosition } from "@/lib/route";
+import type { RankedTrain } from "@/lib/types";
+
+type Props = {
+  train: RankedTrain;
+  position?: TrainPosition;
+  above?: RankedTrain;
+  below?: RankedTrain;
+  onShowInList: () => void;
+};
+
+// Ranking details for the train clicked on the map
+export default function TrainMapDetails({
+  train,
+  position,
+  above,
+  below,
+  onShowInList,
+}: Props) {
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="font-medium">{train.id}</div>
+      <div className="text-xs text-muted-foreground">
+        Rank #{train.rank} · score {train.displayScore}
+        {position && (
+          <>
+            <br />
+            Towards {position.towards}, next stop {position.next}
+          </>
+        )}
+      </div>
+      <ScoreBreakdownPanel train={train} above={above} below={below} />
+      <Button size="sm" variant="outline" onClick={onShowInList}>
+        Show in ranked list
+      </Button>
+    </div>
+  );
+}
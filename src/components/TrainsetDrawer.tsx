@@ -0,0 +1,223 @@
+import { useState, type ReactNode } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { FITNESS_DEPARTMENTS, daysLeft } from "@/lib/fitness";
+import { DEPOTS, STATUSES } from "@/lib/fleetStore";
+import type { FitnessDepartment, Trainset } from "@/lib/types";
+
+type Props = {
+  trainset: Trainset; // the latest record; live feeds may update it while open
+  isNew: boolean;
+  existingIds: string[];
+  onSave: (t: Trainset) => void;
+  onRetire: (t: Trainset) => void;
+  onClose: () => void;
+};
+
+const selectClass =
+  "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+function Field({
+  label,
+  children,
+}: {
+  label: string;
+  children: ReactNode;
+}) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+export default function TrainsetDrawer({
+  trainset,
+  isNew,
+  existingIds,
+  onSave,
+  onRetire,
+  onClose,
+}: Props) {
+  // Only the fields edited here are kept; the rest follow the latest record,
+  // so saving doesn't undo certificates or odometer readings that arrived
+  // while the drawer was open
+  const [edited, setEdited] = useState<Partial<Trainset>>({});
+  const draft: Trainset = { ...trainset, ...edited };
+
+  function set<K extends keyof Trainset>(key: K, value: Trainset[K]) {
+    setEdited((prev) => ({ ...prev, [key]: value }));
+  }
+
+  const idTaken = isNew && existingIds.includes(draft.id.trim().toUpperCase());
+  const problems = [
+    !/^KMRL-TS-\d{2,}$/.test(draft.id.trim().toUpperCase()) &&
+      "ID must look like KMRL-TS-26",
+    idTaken && "ID already exists",
+    !(draft.carCount >= 1 && Number.isInteger(draft.carCount)) &&
+      "Car count must be a whole number ≥ 1",
+    !(draft.mileageKm >= 0) && "Mileage must be ≥ 0",
+    !(draft.lastServiceKm >= 0 && draft.lastServiceKm <= draft.mileageKm) &&
+      "Last service km must be between 0 and current mileage",
+    !draft.bay.trim() && "Bay is required",
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <aside className="relative h-full w-full max-w-md overflow-auto bg-background border-l p-6 space-y-4 shadow-xl">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">
+            {isNew ? "Add trainset" : trainset.id}
+          </h2>
+          <Button size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isNew && (
+          <Field label="Trainset ID">
+            <Input
+              value={draft.id}
+              onChange={(e) => set("id", e.target.value)}
+            />
+          </Field>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <Field label="Car count">
+            <Input
+              type="number"
+              min={1}
+              value={draft.carCount}
+              onChange={(e) => set("carCount", Number(e.target.value))}
+            />
+          </Field>
+          <Field label="Status">
+            <select
+              className={selectClass}
+              value={draft.status}
+              onChange={(e) =>
+                set("status", e.target.value as Trainset["status"])
+              }
+            >
+              {STATUSES.map((s) => (
+                <option key={s}>{s}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Depot">
+            <select
+              className={selectClass}
+              value={draft.stabledAt}
+              onChange={(e) =>
+                set("stabledAt", e.target.value as Trainset["stabledAt"])
+              }
+            >
+              {DEPOTS.map((d) => (
+                <option key={d}>{d}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Bay">
+            <Input
+              value={draft.bay}
+              onChange={(e) => set("bay", e.target.value)}
+            />
+          </Field>
+          <Field label="Mileage (km)">
+            <Input
+              type="number"
+              min={0}
+              value={draft.mileageKm}
+              onChange={(e) => set("mileageKm", Number(e.target.value))}
+            />
+          </Field>
+          <Field label="Last service at (km)">
+            <Input
+              type="number"
+              min={0}
+              value={draft.lastServiceKm}
+              onChange={(e) => set("lastServiceKm", Number(e.target.value))}
+            />
+          </Field>
+        </div>
+
+        {!isNew && (
+          <div className="space-y-2 text-sm">
+            <div className="text-xs text-muted-foreground">
+              Fitness (from certificate imports)
+            </div>
+            {(Object.keys(FITNESS_DEPARTMENTS) as FitnessDepartment[]).map(
+              (d) => {
+                const cert = draft.certificates?.[d];
+                const left = daysLeft(
+                  draft.fitness[FITNESS_DEPARTMENTS[d].field]
+                );
+                return (
+                  <div key={d} className="flex items-center justify-between">
+                    <span>
+                      {FITNESS_DEPARTMENTS[d].label}
+                      {cert && (
+                        <span className="text-xs text-muted-foreground">
+                          {" "}
+                          · {cert.certificateId} ({cert.sourceFile})
+                        </span>
+                      )}
+                    </span>
+                    <Badge variant={left > 2 ? "default" : "destructive"}>
+                      {left}d
+                    </Badge>
+                  </div>
+                );
+              }
+            )}
+            <div className="flex justify-between">
+              <span>Open job-cards</span>
+              <span>{draft.jobCardsOpen}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Branding campaigns</span>
+              <span>{draft.branding.campaigns.length}</span>
+            </div>
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <ul className="text-xs text-destructive list-disc pl-4">
+            {problems.map((p) => (
+              <li key={p}>{p}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2 pt-2">
+          <Button
+            className="flex-1"
+            disabled={problems.length > 0}
+            onClick={() =>
+              onSave({ ...draft, id: draft.id.trim().toUpperCase() })
+            }
+          >
+            Save
+          </Button>
+          {!isNew && (
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (window.confirm(`Retire ${trainset.id} from the fleet?`)) {
+                  onRetire(trainset);
+                }
+              }}
+            >
+              Retire
+            </Button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import type { ReactNode } from "react";
+import { RefreshCcw, Upload } from "lucide-react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { UnsStatus } from "@/lib/uns";
+
+const STATUS_DOT: Record<UnsStatus, string> = {
+  unconfigured: "bg-slate-400",
+  open: "bg-green-500",
+  connecting: "bg-amber-500",
+  reconnecting: "bg-amber-500",
+  closed: "bg-slate-400",
+};
+
+function age(ms: number) {
+  if (ms < 60000) return `${Math.max(0, Math.round(ms / 1000))}s ago`;
+  if (ms < 3600000) return `${Math.round(ms / 60000)}m ago`;
+  return `${Math.round(ms / 3600000)}h ago`;
+}
+
+type Props = {
+  url: string | null; // null when VITE_UNS_URL is not set
+  status: UnsStatus;
+  detail: string | null;
+  feeds: {
+    feed: string;
+    label: string;
+    ageMs: number | null;
+    stale: boolean;
+  }[];
+  received: number;
+  paused: boolean;
+  onPause: (paused: boolean) => void;
+  onReconnect: () => void;
+  children?: ReactNode; // extra rows, e.g. the batch certificate pull
+};
+
+export default function UnsFeedCard({
+  url,
+  status,
+  detail,
+  feeds,
+  received,
+  paused,
+  onPause,
+  onReconnect,
+  children,
+}: Props) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Upload className="h-4 w-4" /> IoT Fitness (UNS)
+        </CardTitle>
+        <CardDescription>Rolling-Stock, Signalling, Telecom</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm text-muted-foreground flex items-center gap-2 min-w-0">
+            <span
+              className={`h-2 w-2 shrink-0 rounded-full ${STATUS_DOT[status]}`}
+            />
+            <span className="truncate" title={url ?? undefined}>
+              {!url
+                ? "not configured · set VITE_UNS_URL"
+                : paused
+                ? "paused"
+                : status}
+              {url && detail && ` · ${detail}`}
+              {url && ` · ${received} msgs`}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={!url}
+              onClick={() => onPause(!paused)}
+            >
+              {paused ? "Resume" : "Pause"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              disabled={!url}
+              onClick={onReconnect}
+            >
+              <RefreshCcw className="h-4 w-4" /> Refresh
+            </Button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          {feeds.map((f) => (
+            <div key={f.feed} className="flex items-center justify-between">
+              <span>{f.label}</span>
+              <Badge variant={f.stale ? "destructive" : "secondary"}>
+                {f.ageMs === null ? "no data" : age(f.ageMs)}
+              </Badge>
+            </div>
+          ))}
+        </div>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
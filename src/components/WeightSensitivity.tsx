@@ -0,0 +1,63 @@
+import { useWeightSensitivity } from "@/hooks/useWeightSensitivity";
+import { SCORE_COMPONENTS } from "@/lib/scoring";
+import { SENSITIVITY_STEPS, type SensitivityInput } from "@/lib/weights";
+
+type Props = {
+  input: SensitivityInput;
+};
+
+// Decision flips per weight change. Re-plans in a Web Worker while sliders
+// move, so the table may lag the sliders briefly.
+export default function WeightSensitivity({ input }: Props) {
+  const { rows, running, error } = useWeightSensitivity(input);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="font-medium">Sensitivity</div>
+      <div className="text-xs text-muted-foreground">
+        Induction decisions that change tonight when one slider moves by the
+        amount shown and the rest stay put. Cleaning slots are held fixed.
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <table className={`text-xs ${running ? "opacity-60" : ""}`}>
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left p-1">Weight</th>
+            {SENSITIVITY_STEPS.map((d) => (
+              <th key={d} className="p-1 text-center w-16">
+                {d > 0 ? "+" : "−"}
+                {Math.abs(d).toFixed(2)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows?.map((row) => (
+            <tr key={row.key} className="border-t">
+              <td className="p-1">{SCORE_COMPONENTS[row.key].label}</td>
+              {row.cells.map((c) => (
+                <td
+                  key={c.delta}
+                  title={
+                    c.flipped.length
+                      ? `At ${c.weight.toFixed(2)}: ${c.flipped.join(", ")}`
+                      : `At ${c.weight.toFixed(2)}: no change`
+                  }
+                  className={`p-1 text-center ${
+                    c.flipped.length >= 3
+                      ? "bg-destructive/20 font-medium"
+                      : c.flipped.length
+                      ? "bg-amber-500/20"
+                      : "text-muted-foreground"
+                  }`}
+                >
+                  {c.flipped.length}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
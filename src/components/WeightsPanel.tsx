@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { SCORE_COMPONENTS, defaultWeights } from "@/lib/scoring";
+import {
+  BUILT_IN_PROFILES,
+  WEIGHT_MAX,
+  scoringWeights,
+  sameWeights,
+  weightSum,
+} from "@/lib/weights";
+import type { WeightProfile, Weights } from "@/lib/types";
+
+const selectClass =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+type Props = {
+  weights: Weights; // slider values
+  respectBranding: boolean;
+  profiles: WeightProfile[]; // saved ones; built-ins are added here
+  onChange: (w: Weights) => void;
+  onSaveProfile: (p: WeightProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  readOnly?: boolean; // view weights without changing them
+};
+
+export default function WeightsPanel({
+  weights,
+  respectBranding,
+  profiles,
+  onChange,
+  onSaveProfile,
+  onDeleteProfile,
+  readOnly = false,
+}: Props) {
+  const [name, setName] = useState("");
+  const all = [...BUILT_IN_PROFILES, ...profiles];
+  const active = all.find((p) => sameWeights(p.weights, weights));
+  const sum = weightSum(weights);
+  const used = scoringWeights(weights, respectBranding);
+  const keys = Object.keys(SCORE_COMPONENTS) as (keyof Weights)[];
+
+  function save() {
+    const trimmed = name.trim();
+    const existing = profiles.find(
+      (p) => p.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    const createdAt = new Date().toISOString();
+    onSaveProfile({
+      id: existing?.id ?? createdAt,
+      name: trimmed,
+      weights,
+      createdAt,
+    });
+    setName("");
+  }
+
+  const nameTaken = BUILT_IN_PROFILES.some(
+    (p) => p.name.toLowerCase() === name.trim().toLowerCase()
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="weight-profile" className="text-sm">
+          Profile
+        </label>
+        <select
+          id="weight-profile"
+          className={selectClass}
+          value={active?.id ?? ""}
+          disabled={readOnly}
+          onChange={(e) => {
+            const p = all.find((q) => q.id === e.target.value);
+            if (p) onChange(p.weights);
+          }}
+        >
+          {!active && <option value="">Custom</option>}
+          {all.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+              {p.builtIn ? "" : " (saved)"}
+            </option>
+          ))}
+        </select>
+        {active && !active.builtIn && !readOnly && (
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label={`Delete profile ${active.name}`}
+            onClick={() => onDeleteProfile(active.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        {!readOnly && (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              disabled={sameWeights(weights, defaultWeights)}
+              onClick={() => onChange(defaultWeights)}
+            >
+              <RotateCcw className="h-4 w-4" /> Reset to default
+            </Button>
+            <Input
+              className="w-56 ml-auto"
+              placeholder="Save as profile, e.g. Monsoon week 2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              size="sm"
+              disabled={!name.trim() || nameTaken}
+              title={nameTaken ? "A built-in profile has this name" : undefined}
+              onClick={save}
+            >
+              Save profile
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div
+        className={`text-sm ${
+          Math.abs(sum - 1) < 0.005 ? "text-muted-foreground" : ""
+        }`}
+      >
+        Sliders sum to {sum.toFixed(2)}.{" "}
+        {sum > 0
+          ? "Scores use each weight divided by the sum, so they stay between 0 and 1."
+          : "All weights are zero: every fit train scores 0."}
+        {!respectBranding && " Branding is off, so its weight is left out."}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {keys.map((k) => (
+          <Card key={k}>
+            <CardHeader>
+              <CardTitle className="text-base">
+                {SCORE_COMPONENTS[k].label}
+              </CardTitle>
+              <CardDescription>
+                Weight: {weights[k].toFixed(2)} · {Math.round(used[k] * 100)}%
+                of the score
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Slider
+                disabled={readOnly}
+                value={[weights[k]]}
+                min={0}
+                max={WEIGHT_MAX}
+                step={0.01}
+                onValueChange={(val) => onChange({ ...weights, [k]: val[0] })}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  deleteAlertRule,
+  deleteAlertState,
+  endedAcknowledgements,
+  evaluateAlerts,
+  loadAlertRules,
+  loadAlertStates,
+  saveAlertRule,
+  saveAlertState,
+} from "@/lib/alerts";
+import type { AlertRule, AlertState, Trainset } from "@/lib/types";
+
+// Alert rules and acknowledge/snooze state backed by IndexedDB, plus the
+// alerts the rules currently raise for `trains`. Acknowledgements are cleared
+// once their alert stops firing.
+export function useAlerts(trains: Trainset[]) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [states, setStates] = useState<Record<string, AlertState>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadAlertRules(), loadAlertStates()])
+      .then(([r, s]) => {
+        if (cancelled) return;
+        setRules(r);
+        setStates(Object.fromEntries(s.map((x) => [x.key, x])));
+        setLoaded(true);
+      })
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) => setError(`Could not save alerts: ${e.message}`));
+  }, []);
+
+  const alerts = useMemo(() => evaluateAlerts(trains, rules), [trains, rules]);
+
+  // Wait for rules, states and the fleet, or every acknowledgement would look
+  // ended while they load
+  useEffect(() => {
+    if (!loaded || !trains.length) return;
+    const ended = endedAcknowledgements(states, alerts);
+    if (!ended.length) return;
+    setStates((prev) => {
+      const next = { ...prev };
+      ended.forEach((key) => delete next[key]);
+      return next;
+    });
+    ended.forEach((key) => persist(deleteAlertState(key)));
+  }, [loaded, trains, alerts, states, persist]);
+
+  const upsertRule = useCallback(
+    (rule: AlertRule) => {
+      setRules((prev) =>
+        prev.some((r) => r.id === rule.id)
+          ? prev.map((r) => (r.id === rule.id ? rule : r))
+          : [...prev, rule]
+      );
+      persist(saveAlertRule(rule));
+    },
+    [persist]
+  );
+
+  const removeRule = useCallback(
+    (id: string) => {
+      setRules((prev) => prev.filter((r) => r.id !== id));
+      persist(deleteAlertRule(id));
+    },
+    [persist]
+  );
+
+  const setState = useCallback(
+    (state: AlertState) => {
+      setStates((prev) => ({ ...prev, [state.key]: state }));
+      persist(saveAlertState(state));
+    },
+    [persist]
+  );
+
+  const acknowledge = useCallback(
+    (key: string, by: string) =>
+      setState({
+        key,
+        status: "acknowledged",
+        until: null,
+        by,
+        at: new Date().toISOString(),
+      }),
+    [setState]
+  );
+
+  const snooze = useCallback(
+    (key: string, hours: number, by: string) =>
+      setState({
+        key,
+        status: "snoozed",
+        until: new Date(Date.now() + hours * 3600 * 1000).toISOString(),
+        by,
+        at: new Date().toISOString(),
+      }),
+    [setState]
+  );
+
+  const reopen = useCallback(
+    (key: string) => {
+      setStates((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      persist(deleteAlertState(key));
+    },
+    [persist]
+  );
+
+  return {
+    rules,
+    alerts,
+    states,
+    error,
+    upsertRule,
+    removeRule,
+    acknowledge,
+    snooze,
+    reopen,
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { identityProvider } from "@/lib/auth";
+import type { User } from "@/lib/types";
+
+// The signed-in user from the configured identity provider. `loading` is true
+// until the provider has answered whether there is a session.
+export function useAuth() {
+  const provider = useMemo(() => identityProvider(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    provider
+      .currentUser(controller.signal)
+      .then((u) => !controller.signal.aborted && setUser(u))
+      .catch(
+        (e: Error) =>
+          !controller.signal.aborted &&
+          setError(`Could not check sign-in: ${e.message}`)
+      )
+      .finally(() => !controller.signal.aborted && setLoading(false));
+    return () => controller.abort();
+  }, [provider]);
+
+  const signIn = useCallback(
+    (userId?: string) => {
+      setError(null);
+      provider
+        .signIn(userId)
+        .then((u) => u && setUser(u))
+        .catch((e: Error) => setError(`Could not sign in: ${e.message}`));
+    },
+    [provider]
+  );
+
+  const signOut = useCallback(() => {
+    provider
+      .signOut()
+      .then(() => setUser(null))
+      .catch((e: Error) => setError(`Could not sign out: ${e.message}`));
+  }, [provider]);
+
+  return { provider, user, loading, error, signIn, signOut };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadFleet, saveFleet, saveTrainset } from "@/lib/fleetStore";
+import type { Trainset } from "@/lib/types";
+
+// Fleet state backed by IndexedDB. Every mutation is written through to the store.
+export function useFleet() {
+  const [trains, setTrains] = useState<Trainset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadFleet()
+      .then((fleet) => !cancelled && setTrains(fleet))
+      .catch((e: Error) => !cancelled && setError(e.message))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) => setError(`Could not save fleet: ${e.message}`));
+  }, []);
+
+  // Replace the whole fleet (imports)
+  const commitFleet = useCallback(
+    (next: Trainset[]) => {
+      setTrains(next);
+      persist(saveFleet(next));
+    },
+    [persist]
+  );
+
+  // Add or edit a single trainset
+  const upsertTrainset = useCallback(
+    (t: Trainset) => {
+      setTrains((prev) =>
+        prev.some((p) => p.id === t.id)
+          ? prev.map((p) => (p.id === t.id ? t : p))
+          : [...prev, t].sort((a, b) => a.id.localeCompare(b.id))
+      );
+      persist(saveTrainset(t));
+    },
+    [persist]
+  );
+
+  // Merge a batch of changed trainsets (live feeds)
+  const applyTrainsetUpdates = useCallback(
+    (changed: Trainset[]) => {
+      const byId = new Map(changed.map((t) => [t.id, t]));
+      setTrains((prev) => prev.map((t) => byId.get(t.id) ?? t));
+      persist(saveFleet(changed));
+    },
+    [persist]
+  );
+
+  const retireTrainset = useCallback(
+    (t: Trainset) => upsertTrainset({ ...t, retiredAt: new Date().toISOString() }),
+    [upsertTrainset]
+  );
+
+  return {
+    trains,
+    loading,
+    error,
+    commitFleet,
+    upsertTrainset,
+    applyTrainsetUpdates,
+    retireTrainset,
+  };
+}
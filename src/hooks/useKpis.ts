@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import { finaliseKpi, loadKpis, saveKpis, type PlannedKpi } from "@/lib/kpi";
+import type { NightKpi } from "@/lib/types";
+
+// Nightly KPI history backed by IndexedDB.
+export function useKpis() {
+  const [history, setHistory] = useState<NightKpi[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadKpis()
+      .then((h) => !cancelled && setHistory(h))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Insert or replace records, keeping the history in night order
+  const commitKpis = useCallback((records: NightKpi[]) => {
+    const nights = new Set(records.map((r) => r.night));
+    setHistory((prev) =>
+      [...prev.filter((k) => !nights.has(k.night)), ...records].sort((a, b) =>
+        a.night.localeCompare(b.night)
+      )
+    );
+    saveKpis(records).catch((e: Error) =>
+      setError(`Could not save KPIs: ${e.message}`)
+    );
+  }, []);
+
+  const finaliseNight = useCallback(
+    (night: string, planned: PlannedKpi) =>
+      commitKpis([
+        finaliseKpi(
+          night,
+          history.find((k) => k.night === night),
+          planned
+        ),
+      ]),
+    [history, commitKpis]
+  );
+
+  return { history, error, commitKpis, finaliseNight };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  deleteMaintenanceWindow,
+  loadMaintenanceWindows,
+  saveMaintenanceWindow,
+} from "@/lib/horizon";
+import type { MaintenanceWindow } from "@/lib/types";
+
+// Scheduled maintenance windows backed by IndexedDB
+export function useMaintenance() {
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMaintenanceWindows()
+      .then((w) => !cancelled && setWindows(w))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) =>
+      setError(`Could not save maintenance windows: ${e.message}`)
+    );
+  }, []);
+
+  const addWindow = useCallback(
+    (w: MaintenanceWindow) => {
+      setWindows((prev) =>
+        [...prev, w].sort((a, b) => a.startNight.localeCompare(b.startNight))
+      );
+      persist(saveMaintenanceWindow(w));
+    },
+    [persist]
+  );
+
+  const removeWindow = useCallback(
+    (id: string) => {
+      setWindows((prev) => prev.filter((w) => w.id !== id));
+      persist(deleteMaintenanceWindow(id));
+    },
+    [persist]
+  );
+
+  return { windows, error, addWindow, removeWindow };
+}
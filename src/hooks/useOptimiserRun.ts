@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { InductionPlan, OptimiserInput } from "@/lib/optimiser";
+import type {
+  OptimiserMessage,
+  OptimiserRequest,
+} from "@/lib/optimiser.worker";
+
+export type OptimiserResult = {
+  input: OptimiserInput; // the input the plan was searched for
+  plan: InductionPlan;
+};
+
+// A full optimiser search in a Web Worker, so the page stays responsive.
+// Starting a new run or cancelling terminates the one in progress.
+export function useOptimiserRun() {
+  const [result, setResult] = useState<OptimiserResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [nodes, setNodes] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    stop();
+    setRunning(false);
+  }, [stop]);
+
+  const run = useCallback(
+    (input: OptimiserInput, nodeBudget: number) => {
+      stop();
+      const worker = new Worker(
+        new URL("../lib/optimiser.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      workerRef.current = worker;
+      setRunning(true);
+      setNodes(0);
+      setError(null);
+      worker.onmessage = (e: MessageEvent<OptimiserMessage>) => {
+        if (e.data.type === "progress") {
+          setNodes(e.data.nodes);
+          return;
+        }
+        setResult({ input, plan: e.data.plan });
+        stop();
+        setRunning(false);
+      };
+      worker.onerror = (e) => {
+        setError(`Optimiser failed: ${e.message}`);
+        stop();
+        setRunning(false);
+      };
+      const request: OptimiserRequest = { input, nodeBudget };
+      worker.postMessage(request);
+    },
+    [stop]
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return { result, running, nodes, error, run, cancel };
+}
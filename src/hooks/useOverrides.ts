@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  OVERRIDE_REASONS,
+  appendAudit,
+  auditEntry,
+  deleteOverride,
+  loadAudit,
+  loadOverrides,
+  saveOverride,
+} from "@/lib/overrides";
+import type { AuditEntry, Override, User } from "@/lib/types";
+
+// Overrides for the given planning night plus the full audit log, backed by
+// IndexedDB. Every change to an override also appends an audit entry;
+// `logAudit` records other planner actions such as finalisation. Entries are
+// stamped with the signed-in user.
+export function useOverrides(night: string, user: User) {
+  const [all, setAll] = useState<Override[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadOverrides(), loadAudit()])
+      .then(([o, a]) => {
+        if (cancelled) return;
+        setAll(o);
+        setAudit(a);
+      })
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) => setError(`Could not save override: ${e.message}`));
+  }, []);
+
+  const log = useCallback(
+    (fields: Omit<AuditEntry, "id" | "at" | "author" | "userId" | "role">) => {
+      const entry = auditEntry({
+        ...fields,
+        author: user.name,
+        userId: user.id,
+        role: user.role,
+      });
+      setAudit((prev) => [entry, ...prev]);
+      persist(appendAudit(entry));
+    },
+    [persist, user]
+  );
+
+  const overrides = useMemo(
+    () =>
+      Object.fromEntries(
+        all.filter((o) => o.night === night).map((o) => [o.trainId, o])
+      ) as Record<string, Override>,
+    [all, night]
+  );
+
+  const setOverride = useCallback(
+    (o: Override) => {
+      setAll((prev) => [
+        ...prev.filter((p) => p.night !== o.night || p.trainId !== o.trainId),
+        o,
+      ]);
+      persist(saveOverride(o));
+      log({
+        night: o.night,
+        trainId: o.trainId,
+        action: "override.set",
+        detail: `${o.decision} (${OVERRIDE_REASONS[o.reason]})${
+          o.comment ? `: ${o.comment}` : ""
+        }`,
+      });
+    },
+    [persist, log]
+  );
+
+  const clearOverride = useCallback(
+    (trainId: string) => {
+      const existing = overrides[trainId];
+      if (!existing) return;
+      setAll((prev) =>
+        prev.filter((p) => p.night !== night || p.trainId !== trainId)
+      );
+      persist(deleteOverride(night, trainId));
+      log({
+        night,
+        trainId,
+        action: "override.cleared",
+        detail: `Cleared ${existing.decision} override`,
+      });
+    },
+    [overrides, night, persist, log]
+  );
+
+  const addNote = useCallback(
+    (text: string) =>
+      log({ night, trainId: null, action: "note", detail: text }),
+    [night, log]
+  );
+
+  return {
+    overrides,
+    audit,
+    error,
+    setOverride,
+    clearOverride,
+    addNote,
+    logAudit: log,
+  };
+}
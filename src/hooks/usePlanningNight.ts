@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+import { planningNight } from "@/lib/overrides";
+
+const CHECK_MS = 60 * 1000;
+
+// The planning night, moving on at the noon cutover while the page is open
+export function usePlanningNight() {
+  const [night, setNight] = useState(() => planningNight());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNight(planningNight()), CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return night;
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadPlans, savePlan } from "@/lib/plans";
+import type { PlanVersion } from "@/lib/types";
+
+// Finalised plan versions backed by IndexedDB, newest night first
+export function usePlans() {
+  const [plans, setPlans] = useState<PlanVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPlans()
+      .then((p) => !cancelled && setPlans(p))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Insert a new version or record sign-offs on an existing one
+  const commitPlan = useCallback((v: PlanVersion) => {
+    setPlans((prev) =>
+      [...prev.filter((p) => p.id !== v.id), v].sort(
+        (a, b) => b.night.localeCompare(a.night) || a.version - b.version
+      )
+    );
+    savePlan(v).catch((e: Error) =>
+      setError(`Could not save the plan: ${e.message}`)
+    );
+  }, []);
+
+  return { plans, error, commitPlan };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from "react";
+import { deleteScenario, loadScenarios, saveScenario } from "@/lib/scenarios";
+import type { Scenario } from "@/lib/types";
+
+// Saved what-if scenarios backed by IndexedDB.
+export function useScenarios() {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadScenarios()
+      .then((s) => !cancelled && setScenarios(s))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) => setError(`Could not save scenario: ${e.message}`));
+  }, []);
+
+  const addScenario = useCallback(
+    (s: Scenario) => {
+      setScenarios((prev) => [...prev, s]);
+      persist(saveScenario(s));
+    },
+    [persist]
+  );
+
+  const removeScenario = useCallback(
+    (id: string) => {
+      setScenarios((prev) => prev.filter((s) => s.id !== id));
+      persist(deleteScenario(id));
+    },
+    [persist]
+  );
+
+  return { scenarios, error, addScenario, removeScenario };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createAdapters, type AdapterId } from "@/lib/adapters";
+import {
+  initialSyncStatus,
+  loadSyncStatus,
+  runSync,
+  saveSyncStatus,
+  syncChanges,
+} from "@/lib/sync";
+import type { SyncStatus, Trainset } from "@/lib/types";
+
+// Sync adapters for the Live Streams cards. Status is kept per adapter and
+// written through to IndexedDB. A successful sync is mapped onto the fleet as
+// it is when the fetch returns, and `onApply` receives only the trainsets it
+// changed, so live updates and edits made during the fetch are kept.
+export function useSync(
+  fleet: Trainset[],
+  onApply: (changed: Trainset[]) => void
+) {
+  const adapters = useMemo(() => createAdapters(), []);
+  const ids = Object.keys(adapters) as AdapterId[];
+  const [status, setStatus] = useState<Record<string, SyncStatus>>(() =>
+    Object.fromEntries(ids.map((id) => [id, initialSyncStatus(id)]))
+  );
+  const [error, setError] = useState<string | null>(null);
+  // Latest status, so an update can be saved outside the state updater
+  const statusRef = useRef(status);
+
+  const fleetRef = useRef(fleet);
+  fleetRef.current = fleet;
+  const running = useRef<Record<string, AbortController>>({});
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) => setError(`Could not save sync status: ${e.message}`));
+  }, []);
+
+  const commit = useCallback((next: Record<string, SyncStatus>) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const update = useCallback(
+    (id: AdapterId, patch: Partial<SyncStatus>, save = false) => {
+      const next = { ...statusRef.current[id], ...patch };
+      commit({ ...statusRef.current, [id]: next });
+      if (save) persist(saveSyncStatus(next));
+    },
+    [commit, persist]
+  );
+
+  // Restore last known status, then probe every source once
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    loadSyncStatus()
+      .then((stored) => {
+        if (signal.aborted) return;
+        const prev = statusRef.current;
+        commit({
+          ...prev,
+          ...Object.fromEntries(
+            stored
+              .filter((s) => Object.hasOwn(adapters, s.adapterId))
+              .map((s) => [
+                s.adapterId,
+                {
+                  ...prev[s.adapterId],
+                  ...s,
+                  state: s.state === "syncing" ? "idle" : s.state,
+                },
+              ])
+          ),
+        });
+      })
+      .catch((e: Error) => !signal.aborted && setError(e.message));
+    (Object.keys(adapters) as AdapterId[]).forEach((id) =>
+      adapters[id]
+        .health(signal)
+        .then((problem) =>
+          update(id, { healthy: !problem, healthMessage: problem })
+        )
+        .catch(
+          (e: Error) =>
+            !signal.aborted &&
+            update(id, { healthy: false, healthMessage: e.message })
+        )
+    );
+    return () => controller.abort();
+  }, [adapters, commit, update]);
+
+  useEffect(
+    () => () => Object.values(running.current).forEach((c) => c.abort()),
+    []
+  );
+
+  const sync = useCallback(
+    async (id: AdapterId) => {
+      if (running.current[id] || !adapters[id].configured) return;
+      const controller = new AbortController();
+      running.current[id] = controller;
+      update(id, {
+        state: "syncing",
+        lastAttemptAt: new Date().toISOString(),
+        retries: 0,
+        error: null,
+      });
+      try {
+        const { batch, records, issues, retries } = await runSync(
+          adapters[id],
+          fleetRef.current,
+          controller.signal,
+          (retries, error) => update(id, { retries, error })
+        );
+        const changed = syncChanges(adapters[id], fleetRef.current, batch);
+        if (changed.length) onApply(changed);
+        update(
+          id,
+          {
+            state: "ok",
+            lastSyncAt: new Date().toISOString(),
+            records,
+            issues,
+            retries,
+            error: null,
+            healthy: true,
+            healthMessage: null,
+          },
+          true
+        );
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        update(id, { state: "error", error: (e as Error).message }, true);
+      } finally {
+        delete running.current[id];
+      }
+    },
+    [adapters, onApply, update]
+  );
+
+  return { adapters, status, error, sync };
+}
@@ -0,0 +1,16 @@
+import { useEffect, useMemo, useState } from "react";
+import { timetablePositions } from "@/lib/route";
+
+const TICK_MS = 2000;
+
+// Timetable positions of `trainIds`, advancing every couple of seconds
+export function useTrainPositions(trainIds: string[]) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return useMemo(() => timetablePositions(trainIds, now), [trainIds, now]);
+}
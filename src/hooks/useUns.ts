@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  UNS_FEEDS,
+  applyUnsMessages,
+  connectUns,
+  isMockUns,
+  parseUnsTopic,
+  type UnsFeed,
+  type UnsMessage,
+  type UnsStatus,
+} from "@/lib/uns";
+import type { Trainset } from "@/lib/types";
+
+const FLUSH_MS = 1000;
+
+// Live UNS subscription. Messages are batched and applied to the fleet once a
+// second through `onApply`, which receives only the trainsets that changed.
+// A null `url` means no broker is configured: nothing connects. Messages from
+// the mock broker are counted but never applied, so invented certificates
+// can't reach the fleet store.
+export function useUns(
+  url: string | null,
+  fleet: Trainset[],
+  onApply: (changed: Trainset[]) => void
+) {
+  const [status, setStatus] = useState<UnsStatus>(
+    url ? "closed" : "unconfigured"
+  );
+  const [detail, setDetail] = useState<string | null>(null);
+  const [lastByFeed, setLastByFeed] = useState<
+    Partial<Record<UnsFeed, number>>
+  >({});
+  const [received, setReceived] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [session, setSession] = useState(0); // bump to reconnect
+  const [paused, setPaused] = useState(false);
+
+  const fleetRef = useRef(fleet);
+  fleetRef.current = fleet;
+  const applyRef = useRef(onApply);
+  applyRef.current = onApply;
+  const buffer = useRef<UnsMessage[]>([]);
+
+  useEffect(() => {
+    if (paused || !url) return;
+    const conn = connectUns(
+      url,
+      {
+        onMessage: (msg) => buffer.current.push(msg),
+        onStatus: (s, d) => {
+          setStatus(s);
+          setDetail(d ?? null);
+        },
+      },
+      () => fleetRef.current
+    );
+    const flush = setInterval(() => {
+      const batch = buffer.current;
+      buffer.current = [];
+      setNow(Date.now());
+      if (!batch.length) return;
+      setReceived((n) => n + batch.length);
+      setLastByFeed((prev) => {
+        const next = { ...prev };
+        batch.forEach((m) => {
+          const feed = parseUnsTopic(m.topic)?.feed;
+          if (feed) next[feed] = Math.max(next[feed] ?? 0, Date.parse(m.ts));
+        });
+        return next;
+      });
+      if (isMockUns(url)) return;
+      const changed = applyUnsMessages(fleetRef.current, batch);
+      if (changed.length) applyRef.current(changed);
+    }, FLUSH_MS);
+    return () => {
+      clearInterval(flush);
+      conn.close();
+    };
+  }, [url, session, paused]);
+
+  const reconnect = useCallback(() => {
+    setPaused(false);
+    setSession((n) => n + 1);
+  }, []);
+
+  const feeds = (Object.keys(UNS_FEEDS) as UnsFeed[]).map((feed) => {
+    const last = lastByFeed[feed] ?? null;
+    return {
+      feed,
+      label: UNS_FEEDS[feed].label,
+      ageMs: last === null ? null : now - last,
+      stale: last === null || now - last > UNS_FEEDS[feed].staleAfterMs,
+    };
+  });
+
+  return {
+    status,
+    detail,
+    feeds,
+    received,
+    paused,
+    setPaused,
+    reconnect,
+  };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  deleteWeightProfile,
+  loadWeightProfiles,
+  saveWeightProfile,
+} from "@/lib/weights";
+import type { WeightProfile } from "@/lib/types";
+
+// Saved weight profiles backed by IndexedDB. Saving under an existing id
+// replaces that profile.
+export function useWeightProfiles() {
+  const [profiles, setProfiles] = useState<WeightProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWeightProfiles()
+      .then((p) => !cancelled && setProfiles(p))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((p: Promise<void>) => {
+    p.catch((e: Error) =>
+      setError(`Could not save weight profile: ${e.message}`)
+    );
+  }, []);
+
+  const saveProfile = useCallback(
+    (p: WeightProfile) => {
+      setProfiles((prev) =>
+        [...prev.filter((q) => q.id !== p.id), p].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      persist(saveWeightProfile(p));
+    },
+    [persist]
+  );
+
+  const removeProfile = useCallback(
+    (id: string) => {
+      setProfiles((prev) => prev.filter((p) => p.id !== id));
+      persist(deleteWeightProfile(id));
+    },
+    [persist]
+  );
+
+  return { profiles, error, saveProfile, removeProfile };
+}
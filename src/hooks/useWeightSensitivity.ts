@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import type { SensitivityMessage } from "@/lib/sensitivity.worker";
+import type { SensitivityInput, SensitivityRow } from "@/lib/weights";
+
+// The sensitivity table for `input`, worked out in a Web Worker. A new input
+// terminates the run in progress; the last rows stay until the new ones land.
+export function useWeightSensitivity(input: SensitivityInput) {
+  const [rows, setRows] = useState<SensitivityRow[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../lib/sensitivity.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    setRunning(true);
+    setError(null);
+    worker.onmessage = (e: MessageEvent<SensitivityMessage>) => {
+      setRows(e.data.rows);
+      setRunning(false);
+      worker.terminate();
+    };
+    worker.onerror = (e) => {
+      setError(`Sensitivity failed: ${e.message}`);
+      setRunning(false);
+      worker.terminate();
+    };
+    worker.postMessage(input);
+    return () => worker.terminate();
+  }, [input]);
+
+  return { rows, running, error };
+}
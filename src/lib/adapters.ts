@@ -0,0 +1,368 @@
+import readXlsxFile from "read-excel-file";
+import { applyBrandingImport, parseBrandingRows } from "./branding";
+import { applyCleaningStatus, parseCleaningCsv } from "./cleaning";
+import { toCsv } from "./csv";
+import {
+  FITNESS_DEPARTMENTS,
+  FITNESS_SCHEMA_VERSION,
+  applyFitnessImport,
+  parseFitnessJson,
+} from "./fitness";
+import { applyMaximoImport, isOpenWorkOrder, parseMaximoCsv } from "./maximo";
+import { fetchFromUrl, probeUrl, type SyncAdapter } from "./sync";
+import type {
+  FitnessDepartment,
+  ImportIssue,
+  JobCategory,
+  Trainset,
+  WorkOrder,
+} from "./types";
+
+// -------------------------------------------------------------
+// Concrete sync adapters. Each source is an HTTP URL from the
+// environment (remote endpoint or a static file), or "mock://" for
+// an offline mock that produces the same file format. An unset
+// source is reported as not configured and never synced, in every
+// build; the mock only runs when asked for.
+// -------------------------------------------------------------
+
+export type AdapterId = "maximo" | "branding" | "cleaning" | "fitness";
+
+const SOURCES: Record<AdapterId, { env: string; url: string | undefined }> = {
+  maximo: {
+    env: "VITE_SYNC_MAXIMO_URL",
+    url: import.meta.env.VITE_SYNC_MAXIMO_URL,
+  },
+  branding: {
+    env: "VITE_SYNC_BRANDING_URL",
+    url: import.meta.env.VITE_SYNC_BRANDING_URL,
+  },
+  cleaning: {
+    env: "VITE_SYNC_CLEANING_URL",
+    url: import.meta.env.VITE_SYNC_CLEANING_URL,
+  },
+  fitness: {
+    env: "VITE_SYNC_FITNESS_URL",
+    url: import.meta.env.VITE_SYNC_FITNESS_URL,
+  },
+};
+
+type Source = {
+  url: string | null; // HTTP source; null for the mock or when unset
+  mock: boolean;
+  label: string; // shown on the card
+};
+
+function resolveSource(id: AdapterId): Source {
+  const { env, url } = SOURCES[id];
+  if (url?.startsWith("mock://")) {
+    return { url: null, mock: true, label: "mock (offline)" };
+  }
+  if (url) return { url, mock: false, label: url };
+  return { url: null, mock: false, label: `not configured (set ${env})` };
+}
+
+// Mock sources fail now and then so retries can be exercised offline
+const MOCK_FAILURE_RATE = 0.15;
+const DAY_MS = 24 * 3600 * 1000;
+
+function pick<T>(xs: T[]) {
+  return xs[Math.floor(Math.random() * xs.length)];
+}
+
+function isoDay(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+async function mockLatency(signal: AbortSignal) {
+  await new Promise((r) => setTimeout(r, 200 + Math.random() * 400));
+  signal.throwIfAborted();
+  if (Math.random() < MOCK_FAILURE_RATE) {
+    throw new Error("Mock source timed out");
+  }
+}
+
+// Faults the mock raises: description, category, estimated hours
+const MOCK_FAULTS: [string, JobCategory, number][] = [
+  ["HVAC fault", "HVAC", 3],
+  ["Door sensor", "DOORS", 2],
+  ["Brake pad wear", "BRAKES", 4],
+  ["PIS display", "PIS", 1],
+  ["Seat repair", "INTERIOR", 1],
+];
+
+// Keeps open work orders, closes one now and then and raises new ones
+function mockMaximoCsv(trains: Trainset[]) {
+  const rows: (string | number)[][] = [
+    [
+      "WO_ID",
+      "TRAIN_ID",
+      "STATUS",
+      "PRIORITY",
+      "DESCRIPTION",
+      "REPORTED_DATE",
+      "CATEGORY",
+      "SAFETY_CRITICAL",
+      "EST_HOURS",
+      "TARGET_DATE",
+    ],
+  ];
+  const now = Date.now();
+  trains.forEach((t) => {
+    const open = (t.workOrders ?? []).filter(isOpenWorkOrder);
+    const existing: WorkOrder[] = open.length
+      ? open
+      : Array.from({ length: t.jobCardsOpen }).map((_, i) => ({
+          woId: `WO-${t.id.slice(-2)}-${i + 1}`,
+          trainId: t.id,
+          status: "APPR",
+          priority: 3,
+          description: "Carried over",
+          reportedAt: null,
+          category: "OTHER",
+          safetyCritical: false,
+          estimatedHours: 2,
+          targetCloseAt: null,
+        }));
+    existing.forEach((wo) =>
+      rows.push([
+        wo.woId,
+        t.id,
+        Math.random() < 0.1 ? "COMP" : pick(["APPR", "WSCH", "INPRG"]),
+        wo.priority,
+        wo.description,
+        isoDay(now - DAY_MS),
+        wo.category,
+        wo.safetyCritical ? "Y" : "N",
+        wo.estimatedHours ?? "",
+        wo.targetCloseAt?.slice(0, 10) ?? isoDay(now + 3 * DAY_MS),
+      ])
+    );
+    if (Math.random() < 0.08) {
+      const [description, category, hours] = pick(MOCK_FAULTS);
+      rows.push([
+        `WO-${t.id.slice(-2)}-${now.toString(36)}`,
+        t.id,
+        "WAPPR",
+        pick([2, 3, 4]),
+        description,
+        isoDay(now),
+        category,
+        "", // category default
+        hours,
+        isoDay(now + 2 * DAY_MS),
+      ]);
+    }
+  });
+  return toCsv(rows);
+}
+
+const MOCK_ADVERTISERS = [
+  ["ADV-LULU", "Lulu Mall", "Onam Sale"],
+  ["ADV-MLM", "Malayala Manorama", "Daily Reader"],
+  ["ADV-KSFE", "KSFE", "Chitty Drive"],
+];
+
+// Active contracts on a handful of trainsets; delivery advances between pulls
+function mockBrandingRows(trains: Trainset[]): unknown[][] {
+  const now = Date.now();
+  const rows: unknown[][] = [
+    [
+      "CAMPAIGN_ID",
+      "ADVERTISER",
+      "CAMPAIGN",
+      "TRAIN_ID",
+      "START_DATE",
+      "END_DATE",
+      "TARGET_HOURS",
+      "DELIVERED_HOURS",
+    ],
+  ];
+  trains.slice(0, 9).forEach((t, i) => {
+    const [id, advertiser, name] = MOCK_ADVERTISERS[i % 3];
+    const current = t.branding.campaigns.find((c) => c.campaignId === id);
+    rows.push([
+      id,
+      advertiser,
+      name,
+      t.id,
+      current ? isoDay(Date.parse(current.start)) : isoDay(now - 10 * DAY_MS),
+      current ? isoDay(Date.parse(current.end)) : isoDay(now + 20 * DAY_MS),
+      current?.targetHours ?? 300,
+      Math.round((current?.deliveredHours ?? 100) + Math.random() * 12),
+    ]);
+  });
+  return rows;
+}
+
+function mockCleaningCsv(trains: Trainset[]) {
+  return toCsv([
+    ["TRAIN_ID", "CLEANING_DUE"],
+    ...trains.map((t) => [
+      t.id,
+      (Math.random() < 0.15 ? !t.cleaningDue : t.cleaningDue) ? "Y" : "N",
+    ]),
+  ]);
+}
+
+// Renews certificates for a few trainsets per pull
+function mockFitnessJson(trains: Trainset[]) {
+  const now = Date.now();
+  const departments = Object.keys(FITNESS_DEPARTMENTS) as FitnessDepartment[];
+  const certificates = [...trains]
+    .sort(() => Math.random() - 0.5)
+    .slice(0, 4)
+    .map((t, i) => {
+      const department = departments[i % departments.length];
+      return {
+        certificateId: `${department.slice(0, 2)}-${isoDay(now)}-${t.id.slice(
+          -2
+        )}`,
+        trainId: t.id,
+        department,
+        issuedOn: isoDay(now),
+        validTill: isoDay(now + (7 + Math.floor(Math.random() * 21)) * DAY_MS),
+        certifier: "Depot desk (mock)",
+      };
+    });
+  return JSON.stringify({
+    schemaVersion: FITNESS_SCHEMA_VERSION,
+    certificates,
+  });
+}
+
+// Text-based source: HTTP or the mock generator, whichever is configured
+function textSource(id: AdapterId, mock: (trains: Trainset[]) => string) {
+  const src = resolveSource(id);
+  return {
+    source: src.label,
+    configured: src.mock || src.url !== null,
+    async fetch(trains: Trainset[], signal: AbortSignal) {
+      if (src.url) return (await fetchFromUrl(src.url, signal)) as string;
+      if (!src.mock) throw new Error(`Source ${src.label}`);
+      await mockLatency(signal);
+      return mock(trains);
+    },
+    async health(signal: AbortSignal) {
+      return src.url ? probeUrl(src.url, signal) : null;
+    },
+  };
+}
+
+function failOnFatal<P extends { fatal: string | null }>(preview: P) {
+  if (preview.fatal) throw new Error(preview.fatal);
+  return preview;
+}
+
+function errorCount(preview: { issues: ImportIssue[] }) {
+  return preview.issues.filter((i) => i.level === "error").length;
+}
+
+// The Maximo export is a full snapshot: a skipped row could be a train's only
+// open work order, so a file with row errors is not applied at all
+function failOnRowErrors<P extends { issues: ImportIssue[] }>(preview: P) {
+  const errors = errorCount(preview);
+  if (errors) {
+    throw new Error(
+      `${errors} row(s) with errors; snapshot not applied so no open work orders are cleared.`
+    );
+  }
+  return preview;
+}
+
+// The runner only passes a batch from an adapter's own fetch to its own
+// count/apply, so erasing the batch type here is safe
+function erase<B>(adapter: SyncAdapter<B>) {
+  return adapter as unknown as SyncAdapter<unknown>;
+}
+
+export function createAdapters(): Record<AdapterId, SyncAdapter<unknown>> {
+  const maximo = textSource("maximo", mockMaximoCsv);
+  const cleaning = textSource("cleaning", mockCleaningCsv);
+  const fitness = textSource("fitness", mockFitnessJson);
+  const branding = resolveSource("branding");
+
+  return {
+    maximo: erase({
+      id: "maximo",
+      label: "Maximo Job-Cards",
+      source: maximo.source,
+      configured: maximo.configured,
+      fetch: async (trains, signal) =>
+        failOnRowErrors(
+          failOnFatal(
+            parseMaximoCsv(
+              await maximo.fetch(trains, signal),
+              maximo.source,
+              trains.map((t) => t.id)
+            )
+          )
+        ),
+      count: (p) => p.accepted.length,
+      issues: errorCount,
+      apply: applyMaximoImport,
+      health: maximo.health,
+    }),
+    branding: erase({
+      id: "branding",
+      label: "Branding Priorities",
+      source: branding.label,
+      configured: branding.mock || branding.url !== null,
+      fetch: async (trains, signal) => {
+        let rows: unknown[][];
+        if (branding.url) {
+          rows = await readXlsxFile(
+            (await fetchFromUrl(branding.url, signal, "blob")) as Blob
+          );
+        } else if (branding.mock) {
+          await mockLatency(signal);
+          rows = mockBrandingRows(trains);
+        } else {
+          throw new Error(`Source ${branding.label}`);
+        }
+        return failOnFatal(
+          parseBrandingRows(
+            rows,
+            branding.url ?? "mock",
+            trains.map((t) => t.id)
+          )
+        );
+      },
+      count: (p) => p.campaigns.length,
+      issues: errorCount,
+      apply: applyBrandingImport,
+      health: async (signal) =>
+        branding.url ? probeUrl(branding.url, signal) : null,
+    }),
+    cleaning: erase({
+      id: "cleaning",
+      label: "Cleaning & Detailing",
+      source: cleaning.source,
+      configured: cleaning.configured,
+      fetch: async (trains, signal) =>
+        parseCleaningCsv(await cleaning.fetch(trains, signal)),
+      count: (due) => Object.keys(due).length,
+      issues: () => 0,
+      apply: applyCleaningStatus,
+      health: cleaning.health,
+    }),
+    fitness: erase({
+      id: "fitness",
+      label: "IoT Fitness (UNS)",
+      source: fitness.source,
+      configured: fitness.configured,
+      fetch: async (trains, signal) =>
+        failOnFatal(
+          parseFitnessJson(
+            await fitness.fetch(trains, signal),
+            fitness.source,
+            trains.map((t) => t.id)
+          )
+        ),
+      count: (p) => p.certificates.length,
+      issues: errorCount,
+      apply: applyFitnessImport,
+      health: fitness.health,
+    }),
+  };
+}
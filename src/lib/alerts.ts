@@ -0,0 +1,220 @@
+import { brandingNeed } from "./branding";
+import { getAll, put, putAll, remove } from "./db";
+import { daysLeft, weakestCertificate } from "./fitness";
+import type {
+  AlertComparator,
+  AlertLevel,
+  AlertRule,
+  AlertState,
+  Trainset,
+} from "./types";
+
+// -------------------------------------------------------------
+// Alert rules engine: user-defined rules evaluated per trainset,
+// with acknowledge / snooze state (IndexedDB "alertRules", "alertStates")
+// -------------------------------------------------------------
+
+export const ALERT_FIELDS: Record<
+  string,
+  { label: string; value: (t: Trainset) => number | null }
+> = {
+  rollingStockDays: {
+    label: "Rolling-stock fitness (days left)",
+    value: (t) => daysLeft(t.fitness.rollingStockValidTill),
+  },
+  signallingDays: {
+    label: "Signalling fitness (days left)",
+    value: (t) => daysLeft(t.fitness.signallingValidTill),
+  },
+  telecomDays: {
+    label: "Telecom fitness (days left)",
+    value: (t) => daysLeft(t.fitness.telecomValidTill),
+  },
+  minFitnessDays: {
+    label: "Weakest certificate (days left)",
+    value: (t) => weakestCertificate(t).daysLeft,
+  },
+  jobCardsOpen: { label: "Open job cards", value: (t) => t.jobCardsOpen },
+  mileageKm: { label: "Mileage (km)", value: (t) => t.mileageKm },
+  kmSinceService: {
+    label: "Km since last service",
+    value: (t) => t.mileageKm - t.lastServiceKm,
+  },
+  cleaningDue: {
+    label: "Deep clean due (1 = yes)",
+    value: (t) => (t.cleaningDue ? 1 : 0),
+  },
+  brandingNeed: {
+    label: "Branding need (0–1)",
+    value: (t) => brandingNeed(t),
+  },
+};
+
+export const ALERT_COMPARATORS: AlertComparator[] = [
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "==",
+  "!=",
+];
+
+export const ALERT_LEVELS: AlertLevel[] = ["high", "med", "low"];
+
+const LEVEL_ORDER: Record<AlertLevel, number> = { high: 0, med: 1, low: 2 };
+
+// Seeded on first load; these replace the original fixed rules
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: "rolling-stock-48h",
+    field: "rollingStockDays",
+    comparator: "<=",
+    threshold: 2,
+    level: "high",
+    message: "{train}: Rolling-stock fitness expires in {value}d.",
+    enabled: true,
+  },
+  {
+    id: "signalling-48h",
+    field: "signallingDays",
+    comparator: "<=",
+    threshold: 2,
+    level: "high",
+    message: "{train}: Signalling fitness expires in {value}d.",
+    enabled: true,
+  },
+  {
+    id: "telecom-48h",
+    field: "telecomDays",
+    comparator: "<=",
+    threshold: 2,
+    level: "high",
+    message: "{train}: Telecom fitness expires in {value}d.",
+    enabled: true,
+  },
+  {
+    id: "job-cards",
+    field: "jobCardsOpen",
+    comparator: ">=",
+    threshold: 3,
+    level: "med",
+    message: "{train}: {value} open job-cards.",
+    enabled: true,
+  },
+  {
+    id: "cleaning-due",
+    field: "cleaningDue",
+    comparator: "==",
+    threshold: 1,
+    level: "low",
+    message: "{train}: Deep clean due.",
+    enabled: true,
+  },
+];
+
+export type Alert = {
+  key: string;
+  ruleId: string;
+  trainId: string;
+  level: AlertLevel;
+  text: string;
+  value: number;
+};
+
+function compare(value: number, op: AlertComparator, threshold: number) {
+  switch (op) {
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "==":
+      return value === threshold;
+    case "!=":
+      return value !== threshold;
+  }
+}
+
+export function alertKey(ruleId: string, trainId: string) {
+  return `${ruleId}:${trainId}`;
+}
+
+// All firing alerts, most severe first
+export function evaluateAlerts(trains: Trainset[], rules: AlertRule[]) {
+  const alerts: Alert[] = [];
+  rules
+    .filter((r) => r.enabled && Object.hasOwn(ALERT_FIELDS, r.field))
+    .forEach((rule) => {
+      trains.forEach((t) => {
+        const value = ALERT_FIELDS[rule.field].value(t);
+        if (value === null || !Number.isFinite(value)) return;
+        if (!compare(value, rule.comparator, rule.threshold)) return;
+        const shown = Number.isInteger(value) ? value : value.toFixed(2);
+        alerts.push({
+          key: alertKey(rule.id, t.id),
+          ruleId: rule.id,
+          trainId: t.id,
+          level: rule.level,
+          value,
+          text: rule.message
+            .replaceAll("{train}", t.id)
+            .replaceAll("{value}", String(shown))
+            .replaceAll("{threshold}", String(rule.threshold)),
+        });
+      });
+    });
+  return alerts.sort(
+    (a, b) =>
+      LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level] ||
+      a.trainId.localeCompare(b.trainId)
+  );
+}
+
+// An acknowledgement covers one episode of an alert: once the alert stops
+// firing its state is dropped, so a later recurrence shows again
+export function endedAcknowledgements(
+  states: Record<string, AlertState>,
+  alerts: Alert[]
+) {
+  const firing = new Set(alerts.map((a) => a.key));
+  return Object.values(states)
+    .filter((s) => s.status === "acknowledged" && !firing.has(s.key))
+    .map((s) => s.key);
+}
+
+// A snooze stops hiding the alert once it expires
+export function isSilenced(state: AlertState | undefined, now = Date.now()) {
+  if (!state) return false;
+  if (state.status === "acknowledged") return true;
+  return !!state.until && new Date(state.until).getTime() > now;
+}
+
+export async function loadAlertRules(): Promise<AlertRule[]> {
+  const stored = await getAll<AlertRule>("alertRules");
+  if (stored.length) return stored;
+  await putAll("alertRules", DEFAULT_RULES);
+  return DEFAULT_RULES;
+}
+
+export function saveAlertRule(rule: AlertRule) {
+  return put("alertRules", rule);
+}
+
+export function deleteAlertRule(id: string) {
+  return remove("alertRules", id);
+}
+
+export function loadAlertStates(): Promise<AlertState[]> {
+  return getAll<AlertState>("alertStates");
+}
+
+export function saveAlertState(state: AlertState) {
+  return put("alertStates", state);
+}
+
+export function deleteAlertState(key: string) {
+  return remove("alertStates", key);
+}
@@ -0,0 +1,160 @@
+import type { PlanRole, User, UserRole } from "./types";
+
+// -------------------------------------------------------------
+// Sign-in and role-based access. The identity provider is picked
+// from the environment:
+//   VITE_AUTH_URL set  the site's SSO gateway: GET {url}/me returns
+//                      { id, name, role } for the session cookie (401
+//                      when signed out); {url}/login and {url}/logout
+//                      redirect back to the dashboard
+//   VITE_AUTH_MOCK     "true": local mock with one demo user per role
+//                      (localStorage "kmrl.session"); dev builds use
+//                      it whenever VITE_AUTH_URL is unset
+//   neither            nobody can sign in
+// -------------------------------------------------------------
+
+export const USER_ROLES: Record<UserRole, { label: string; summary: string }> =
+  {
+    viewer: { label: "Viewer", summary: "Read only" },
+    planner: {
+      label: "Planner",
+      summary:
+        "Imports data, tunes weights, runs what-ifs, finalises and signs as planner",
+    },
+    controller: {
+      label: "Depot controller",
+      summary: "Planner tools plus overrides and the depot controller sign-off",
+    },
+  };
+
+export type Permission =
+  | "data.edit" // imports, syncs, fleet edits, maintenance windows, alert rules
+  | "plan.tune" // weights, demand and the other planning inputs
+  | "plan.whatIf" // save and load scenarios
+  | "plan.finalise" // freeze tonight's plan as a version
+  | "plan.override"; // per-train overrides, finalising past red checks
+
+const PERMISSION_ROLES: Record<Permission, UserRole[]> = {
+  "data.edit": ["planner", "controller"],
+  "plan.tune": ["planner", "controller"],
+  "plan.whatIf": ["planner", "controller"],
+  "plan.finalise": ["planner", "controller"],
+  "plan.override": ["controller"],
+};
+
+export function can(user: User, permission: Permission) {
+  return PERMISSION_ROLES[permission].includes(user.role);
+}
+
+// Who may sign a plan version in each sign-off role
+export function canSignAs(user: User, role: PlanRole) {
+  return user.role === role;
+}
+
+// Tooltip for controls the signed-in role can't use
+export function deniedReason(permission: Permission) {
+  const roles = PERMISSION_ROLES[permission].map((r) => USER_ROLES[r].label);
+  return `Needs the ${roles.join(" or ")} role`;
+}
+
+export type IdentityProvider = {
+  id: "sso" | "mock" | "none";
+  label: string;
+  users: User[]; // users to pick from at sign-in; empty for SSO
+  // The signed-in user, or null when there is no session
+  currentUser: (signal: AbortSignal) => Promise<User | null>;
+  // Resolves to the user for the mock; the SSO gateway navigates away
+  signIn: (userId?: string) => Promise<User | null>;
+  signOut: () => Promise<void>;
+};
+
+const SESSION_KEY = "kmrl.session";
+
+export const MOCK_USERS: User[] = [
+  { id: "demo.viewer", name: "Demo Viewer", role: "viewer" },
+  { id: "demo.planner", name: "Demo Planner", role: "planner" },
+  { id: "demo.controller", name: "Demo Controller", role: "controller" },
+];
+
+function mockProvider(): IdentityProvider {
+  const find = (id: string | null) =>
+    MOCK_USERS.find((u) => u.id === id) ?? null;
+  return {
+    id: "mock",
+    label: "Local mock (development)",
+    users: MOCK_USERS,
+    currentUser: async () => find(localStorage.getItem(SESSION_KEY)),
+    signIn: async (userId) => {
+      const user = find(userId ?? null);
+      if (!user) throw new Error(`Unknown user ${userId}`);
+      localStorage.setItem(SESSION_KEY, user.id);
+      return user;
+    },
+    signOut: async () => localStorage.removeItem(SESSION_KEY),
+  };
+}
+
+// Unknown or missing roles fall back to read-only
+export function parseUser(json: unknown): User | null {
+  const p = (json ?? {}) as Record<string, unknown>;
+  if (typeof p.id !== "string" || !p.id) return null;
+  const role =
+    typeof p.role === "string" && Object.hasOwn(USER_ROLES, p.role)
+      ? (p.role as UserRole)
+      : "viewer";
+  return {
+    id: p.id,
+    name: typeof p.name === "string" && p.name ? p.name : p.id,
+    role,
+  };
+}
+
+function ssoProvider(url: string): IdentityProvider {
+  const base = url.replace(/\/+$/, "");
+  const back = () => encodeURIComponent(window.location.href);
+  return {
+    id: "sso",
+    label: base,
+    users: [],
+    currentUser: async (signal) => {
+      const res = await fetch(`${base}/me`, {
+        signal,
+        credentials: "include",
+        cache: "no-store",
+      });
+      if (res.status === 401 || res.status === 403) return null;
+      if (!res.ok) throw new Error(`${base}/me: HTTP ${res.status}`);
+      const user = parseUser(await res.json());
+      if (!user) throw new Error(`${base}/me: no user id in the response`);
+      return user;
+    },
+    signIn: async () => {
+      window.location.assign(`${base}/login?redirect=${back()}`);
+      return null;
+    },
+    signOut: async () => {
+      window.location.assign(`${base}/logout?redirect=${back()}`);
+    },
+  };
+}
+
+// Production builds with no identity provider configured
+function noProvider(): IdentityProvider {
+  return {
+    id: "none",
+    label: "no identity provider",
+    users: [],
+    currentUser: async () => null,
+    signIn: async () => {
+      throw new Error("sign-in is not configured (set VITE_AUTH_URL)");
+    },
+    signOut: async () => {},
+  };
+}
+
+export function identityProvider(): IdentityProvider {
+  const env = import.meta.env;
+  if (env.VITE_AUTH_URL) return ssoProvider(env.VITE_AUTH_URL);
+  if (env.DEV || env.VITE_AUTH_MOCK === "true") return mockProvider();
+  return noProvider();
+}
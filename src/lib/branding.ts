@@ -0,0 +1,214 @@
+import type { BrandingCampaign, ImportIssue, Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Branding contracts: advertiser XLSX import + exposure tracking
+// Sheet columns: CAMPAIGN_ID, ADVERTISER, CAMPAIGN, TRAIN_ID, START_DATE,
+// END_DATE, TARGET_HOURS[, DELIVERED_HOURS]
+// -------------------------------------------------------------
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Revenue hours a single rake can realistically log per service day
+export const SERVICE_HOURS_PER_DAY = 16;
+
+const REQUIRED_COLUMNS = [
+  "CAMPAIGN_ID",
+  "ADVERTISER",
+  "CAMPAIGN",
+  "TRAIN_ID",
+  "START_DATE",
+  "END_DATE",
+  "TARGET_HOURS",
+] as const;
+
+export function isActive(c: BrandingCampaign, now = Date.now()) {
+  return (
+    new Date(c.start).getTime() <= now && now <= new Date(c.end).getTime()
+  );
+}
+
+export function activeCampaigns(t: Trainset, now = Date.now()) {
+  return t.branding.campaigns.filter((c) => isActive(c, now));
+}
+
+export function campaignProgress(c: BrandingCampaign, now = Date.now()) {
+  const start = new Date(c.start).getTime();
+  const end = new Date(c.end).getTime();
+  const elapsed = Math.max(0, Math.min(1, (now - start) / Math.max(1, end - start)));
+  const expectedHours = c.targetHours * elapsed;
+  return {
+    elapsed,
+    expectedHours,
+    remainingHours: Math.max(0, c.targetHours - c.deliveredHours),
+    behindHours: Math.max(0, expectedHours - c.deliveredHours),
+    daysLeft: Math.max(0, Math.ceil((end - now) / DAY_MS)),
+    onPace: c.deliveredHours >= expectedHours,
+  };
+}
+
+// 0..1 urgency: share of each remaining service day this train must run to hit its
+// most demanding active target. null when the train carries no active campaign.
+export function brandingNeed(t: Trainset, now = Date.now()): number | null {
+  const active = activeCampaigns(t, now);
+  if (!active.length) return null;
+  return Math.max(
+    ...active.map((c) => {
+      const p = campaignProgress(c, now);
+      return Math.min(
+        1,
+        p.remainingHours / (Math.max(1, p.daysLeft) * SERVICE_HOURS_PER_DAY)
+      );
+    })
+  );
+}
+
+// Percentage of active campaign placements that are on pace for their target
+export function brandingCompliance(trains: Trainset[], now = Date.now()) {
+  const active = trains.flatMap((t) => activeCampaigns(t, now));
+  if (!active.length) return 100;
+  const onPace = active.filter((c) => campaignProgress(c, now).onPace).length;
+  return Math.round((onPace / active.length) * 100);
+}
+
+export function activeCampaignCount(trains: Trainset[], now = Date.now()) {
+  return new Set(
+    trains.flatMap((t) => activeCampaigns(t, now).map((c) => c.campaignId))
+  ).size;
+}
+
+export type BrandingPreview = {
+  fileName: string;
+  totalRows: number;
+  campaigns: BrandingCampaign[];
+  issues: ImportIssue[];
+  fatal: string | null;
+};
+
+function toIsoDate(v: unknown): string | null {
+  if (v instanceof Date) {
+    return Number.isNaN(v.getTime()) ? null : v.toISOString();
+  }
+  if (typeof v === "number") {
+    // Excel serial date (days since 1899-12-30)
+    return new Date(Date.UTC(1899, 11, 30) + v * DAY_MS).toISOString();
+  }
+  if (typeof v === "string" && v.trim()) {
+    const d = new Date(v.trim());
+    return Number.isNaN(d.getTime()) ? null : d.toISOString();
+  }
+  return null;
+}
+
+const text = (v: unknown) => (v == null ? "" : String(v).trim());
+
+export function parseBrandingRows(
+  rows: unknown[][],
+  fileName: string,
+  knownTrainIds: Iterable<string>
+): BrandingPreview {
+  const preview: BrandingPreview = {
+    fileName,
+    totalRows: 0,
+    campaigns: [],
+    issues: [],
+    fatal: null,
+  };
+
+  if (!rows.length) {
+    preview.fatal = "Sheet is empty.";
+    return preview;
+  }
+  const header = rows[0].map((h) => text(h).toUpperCase().replace(/\s+/g, "_"));
+  const missing = REQUIRED_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length) {
+    preview.fatal = `Missing required column(s): ${missing.join(", ")}.`;
+    return preview;
+  }
+  const col = (name: string) => header.indexOf(name);
+
+  const known = new Set(knownTrainIds);
+  const seen = new Set<string>(); // CAMPAIGN_ID + TRAIN_ID
+
+  rows.slice(1).forEach((cells, i) => {
+    if (cells.every((c) => text(c) === "")) return;
+    const row = i + 2;
+    preview.totalRows++;
+    const error = (message: string) =>
+      preview.issues.push({ row, level: "error", message });
+    const cell = (name: string) => (col(name) >= 0 ? cells[col(name)] : null);
+
+    const campaignId = text(cell("CAMPAIGN_ID"));
+    const trainId = text(cell("TRAIN_ID")).toUpperCase();
+    const start = toIsoDate(cell("START_DATE"));
+    const endDay = toIsoDate(cell("END_DATE"));
+    // END_DATE is inclusive: the window closes at the end of that day
+    const end = endDay && new Date(new Date(endDay).getTime() + DAY_MS - 1).toISOString();
+    const targetHours = Number(cell("TARGET_HOURS"));
+    const rawDelivered = cell("DELIVERED_HOURS");
+    const deliveredHours = text(rawDelivered) === "" ? 0 : Number(rawDelivered);
+
+    if (!campaignId) return error("CAMPAIGN_ID is empty.");
+    if (!known.has(trainId)) {
+      return error(`${campaignId}: unknown train ID "${trainId}".`);
+    }
+    if (!start || !end) {
+      return error(`${campaignId}: START_DATE/END_DATE must be dates.`);
+    }
+    if (end < start) return error(`${campaignId}: END_DATE is before START_DATE.`);
+    if (!Number.isFinite(targetHours) || targetHours <= 0) {
+      return error(`${campaignId}: TARGET_HOURS must be a positive number.`);
+    }
+    if (!Number.isFinite(deliveredHours) || deliveredHours < 0) {
+      return error(`${campaignId}: DELIVERED_HOURS must be a number ≥ 0.`);
+    }
+    const key = `${campaignId}|${trainId}`;
+    if (seen.has(key)) {
+      return error(`${campaignId}: duplicate row for ${trainId}.`);
+    }
+    seen.add(key);
+
+    if (Date.now() > new Date(end).getTime()) {
+      preview.issues.push({
+        row,
+        level: "warning",
+        message: `${campaignId}: window already ended; kept for reporting only.`,
+      });
+    }
+
+    preview.campaigns.push({
+      campaignId,
+      advertiser: text(cell("ADVERTISER")),
+      name: text(cell("CAMPAIGN")) || campaignId,
+      trainId,
+      start,
+      end,
+      targetHours,
+      deliveredHours,
+    });
+  });
+
+  return preview;
+}
+
+// The advertiser sheet is the full contract list: it replaces every train's campaigns.
+// Delivered hours never go backwards, so a sheet without DELIVERED_HOURS keeps the tally.
+export function applyBrandingImport(
+  trains: Trainset[],
+  preview: BrandingPreview
+): Trainset[] {
+  return trains.map((t) => ({
+    ...t,
+    branding: {
+      campaigns: preview.campaigns
+        .filter((c) => c.trainId === t.id)
+        .map((c) => {
+          const prev = t.branding.campaigns.find(
+            (p) => p.campaignId === c.campaignId
+          );
+          return prev && prev.deliveredHours > c.deliveredHours
+            ? { ...c, deliveredHours: prev.deliveredHours }
+            : c;
+        }),
+    },
+  }));
+}
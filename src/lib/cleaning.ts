@@ -0,0 +1,128 @@
+import { parseCsv } from "./csv";
+import type { Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Overnight cleaning scheduler: assigns cleaning-due trains to
+// bay × shift slots, limited by bays and crews on each shift
+// -------------------------------------------------------------
+
+export type CleaningShift = {
+  label: string;
+  start: string; // "HH:MM", local depot time
+  hours: number;
+  crews: number; // detailing crews rostered; one crew per train at a time
+};
+
+export const DEFAULT_SHIFTS: CleaningShift[] = [
+  { label: "Night A", start: "21:30", hours: 3.5, crews: 4 },
+  { label: "Night B", start: "01:00", hours: 3.5, crews: 3 },
+];
+
+// Time one crew needs for a deep clean, including shunting in/out of the bay
+export const DEEP_CLEAN_HOURS = 3;
+
+export type CleaningAssignment = {
+  trainId: string;
+  shift: string;
+  bay: number; // 1-based cleaning bay
+  start: string; // "HH:MM"
+};
+
+export type CleaningSchedule = {
+  assignments: CleaningAssignment[];
+  missed: string[]; // due trains left without a slot, in priority order
+  capacity: number;
+  perShift: { shift: string; capacity: number; used: number }[];
+};
+
+function addHours(hhmm: string, hours: number) {
+  const [h, m] = hhmm.split(":").map(Number);
+  const total = (h * 60 + m + Math.round(hours * 60)) % (24 * 60);
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(
+    total % 60
+  ).padStart(2, "0")}`;
+}
+
+// `dueIds` must already be in priority order (most wanted for service first)
+export function scheduleCleaning(
+  dueIds: string[],
+  bays: number,
+  shifts: CleaningShift[] = DEFAULT_SHIFTS
+): CleaningSchedule {
+  // Each shift runs min(bays, crews) cleans in parallel, in back-to-back rounds
+  const slots: Omit<CleaningAssignment, "trainId">[] = [];
+  const perShift = shifts.map((s) => {
+    const lanes = Math.max(0, Math.min(bays, s.crews));
+    const rounds = Math.floor(s.hours / DEEP_CLEAN_HOURS);
+    for (let r = 0; r < rounds; r++) {
+      for (let b = 1; b <= lanes; b++) {
+        slots.push({
+          shift: s.label,
+          bay: b,
+          start: addHours(s.start, r * DEEP_CLEAN_HOURS),
+        });
+      }
+    }
+    return { shift: s.label, capacity: lanes * rounds, used: 0 };
+  });
+
+  const assignments = dueIds
+    .slice(0, slots.length)
+    .map((trainId, i) => ({ trainId, ...slots[i] }));
+  assignments.forEach((a) => {
+    perShift.find((p) => p.shift === a.shift)!.used++;
+  });
+
+  return {
+    assignments,
+    missed: dueIds.slice(slots.length),
+    capacity: slots.length,
+    perShift,
+  };
+}
+
+// -------------------------------------------------------------
+// Cleaning & detailing status feed
+// Expected header: TRAIN_ID, CLEANING_DUE (Y/N, TRUE/FALSE or 1/0)
+// -------------------------------------------------------------
+
+const DUE_VALUES: Record<string, boolean> = {
+  Y: true,
+  YES: true,
+  TRUE: true,
+  "1": true,
+  N: false,
+  NO: false,
+  FALSE: false,
+  "0": false,
+};
+
+// trainId -> due; throws when the file can't be read at all, skips bad rows
+export function parseCleaningCsv(text: string): Record<string, boolean> {
+  const rows = parseCsv(text);
+  if (!rows.length) throw new Error("Cleaning feed is empty.");
+  const header = rows[0].map((h) => h.trim().toUpperCase());
+  const idCol = header.indexOf("TRAIN_ID");
+  const dueCol = header.indexOf("CLEANING_DUE");
+  if (idCol < 0 || dueCol < 0) {
+    throw new Error("Cleaning feed needs TRAIN_ID and CLEANING_DUE columns.");
+  }
+  const due: Record<string, boolean> = {};
+  rows.slice(1).forEach((cells) => {
+    const id = cells[idCol]?.trim().toUpperCase();
+    const value = DUE_VALUES[cells[dueCol]?.trim().toUpperCase() ?? ""];
+    if (id && value !== undefined) due[id] = value;
+  });
+  return due;
+}
+
+export function applyCleaningStatus(
+  trains: Trainset[],
+  due: Record<string, boolean>
+): Trainset[] {
+  return trains.map((t) =>
+    t.id in due && due[t.id] !== t.cleaningDue
+      ? { ...t, cleaningDue: due[t.id] }
+      : t
+  );
+}
@@ -0,0 +1,71 @@
+// -------------------------------------------------------------
+// Thin promise wrapper over IndexedDB (browser-local persistence)
+// Bump DB_VERSION whenever a store is added to STORES.
+// -------------------------------------------------------------
+
+const DB_NAME = "kmrl-induction-planner";
+const DB_VERSION = 9;
+
+const STORES = {
+  trainsets: { keyPath: "id" },
+  overrides: { keyPath: ["night", "trainId"] },
+  audit: { keyPath: "id" },
+  scenarios: { keyPath: "id" },
+  kpis: { keyPath: "night" },
+  alertRules: { keyPath: "id" },
+  alertStates: { keyPath: "key" },
+  syncStatus: { keyPath: "adapterId" },
+  maintenance: { keyPath: "id" },
+  plans: { keyPath: "id" },
+  weightProfiles: { keyPath: "id" },
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      Object.entries(STORES).forEach(([name, opts]) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, opts);
+        }
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function tx(store: StoreName, mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db.transaction(store, mode).objectStore(store);
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  return request((await tx(store, "readonly")).getAll() as IDBRequest<T[]>);
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<void> {
+  await request((await tx(store, "readwrite")).put(value));
+}
+
+export async function putAll<T>(store: StoreName, values: T[]): Promise<void> {
+  const os = await tx(store, "readwrite");
+  await Promise.all(values.map((v) => request(os.put(v))));
+}
+
+export async function remove(store: StoreName, key: IDBValidKey): Promise<void> {
+  await request((await tx(store, "readwrite")).delete(key));
+}
@@ -0,0 +1,142 @@
+import type { Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Depot stabling geometry. Each depot is a set of dead-end
+// stabling lines; bays B1..Bn are numbered line by line from the
+// exit (throat) end, so a train can only leave once every train
+// nearer the exit on its line has left or been moved aside.
+// -------------------------------------------------------------
+
+type Depot = Trainset["stabledAt"];
+
+export const DEPOT_LAYOUT: Record<
+  Depot,
+  { label: string; lines: number; depth: number }
+> = {
+  MAIN_DEPOT_A: { label: "Main Depot A", lines: 6, depth: 2 },
+  MAIN_DEPOT_B: { label: "Main Depot B", lines: 4, depth: 3 },
+  SATELLITE: { label: "Satellite", lines: 3, depth: 4 },
+};
+
+export type BayPosition = { line: number; slot: number }; // slot 0 is at the exit
+
+export function bayLabel(depot: Depot, line: number, slot: number) {
+  return `B${line * DEPOT_LAYOUT[depot].depth + slot + 1}`;
+}
+
+// null when the label is not a bay of this depot (free text, out of range)
+export function bayPosition(depot: Depot, bay: string): BayPosition | null {
+  const m = /^B(\d+)$/i.exec(bay.trim());
+  const { lines, depth } = DEPOT_LAYOUT[depot];
+  const n = m ? Number(m[1]) - 1 : -1;
+  if (n < 0 || n >= lines * depth) return null;
+  return { line: Math.floor(n / depth), slot: n % depth };
+}
+
+export type DepotLine = {
+  line: number;
+  slots: Trainset[][]; // several trains in one slot is a conflict
+};
+
+export type DepotOccupancy = {
+  depot: Depot;
+  lines: DepotLine[];
+  unplaced: Trainset[]; // no recognisable bay
+};
+
+export function depotOccupancy(trains: Trainset[]): DepotOccupancy[] {
+  return (Object.keys(DEPOT_LAYOUT) as Depot[]).map((depot) => {
+    const { lines, depth } = DEPOT_LAYOUT[depot];
+    const grid: DepotLine[] = Array.from({ length: lines }).map((_, line) => ({
+      line,
+      slots: Array.from({ length: depth }).map(() => []),
+    }));
+    const unplaced: Trainset[] = [];
+    trains
+      .filter((t) => t.stabledAt === depot)
+      .forEach((t) => {
+        const pos = bayPosition(depot, t.bay);
+        if (pos) grid[pos.line].slots[pos.slot].push(t);
+        else unplaced.push(t);
+      });
+    return { depot, lines: grid, unplaced };
+  });
+}
+
+// Trains stabled between each train and the exit of its line
+export function blockersOf(trains: Trainset[]): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  depotOccupancy(trains).forEach(({ lines }) =>
+    lines.forEach(({ slots }) =>
+      slots.forEach((here, slot) =>
+        here.forEach((t) =>
+          result.set(
+            t.id,
+            slots.slice(0, slot).flatMap((s) => s.map((o) => o.id))
+          )
+        )
+      )
+    )
+  );
+  return result;
+}
+
+export type ExitStep = {
+  trainId: string;
+  depot: Depot;
+  bay: string;
+  moveAside: string[]; // standby trains shunted out of the way first
+};
+
+// Departure sequence for the inducted trains. Follows plan rank where the
+// geometry allows; a train never leaves before inducted trains in front of it.
+export function exitOrder(
+  trains: Trainset[],
+  inducted: string[] // rank order
+): ExitStep[] {
+  const blockers = blockersOf(trains);
+  const byId = new Map(trains.map((t) => [t.id, t]));
+  const going = new Set(inducted);
+  const gone = new Set<string>();
+  const movedAside = new Set<string>();
+  const steps: ExitStep[] = [];
+  const pending = inducted.filter((id) => byId.has(id));
+  while (pending.length) {
+    const i = Math.max(
+      0,
+      pending.findIndex((id) =>
+        (blockers.get(id) ?? []).every((b) => !going.has(b) || gone.has(b))
+      )
+    );
+    const [id] = pending.splice(i, 1);
+    const t = byId.get(id)!;
+    const moveAside = (blockers.get(id) ?? []).filter(
+      (b) => !going.has(b) && !movedAside.has(b)
+    );
+    moveAside.forEach((b) => movedAside.add(b));
+    gone.add(id);
+    steps.push({ trainId: id, depot: t.stabledAt, bay: t.bay, moveAside });
+  }
+  return steps;
+}
+
+// Trains changed by moving one into a bay; an occupant of the target bay
+// swaps into the vacated bay
+export function moveToBay(
+  trains: Trainset[],
+  trainId: string,
+  depot: Depot,
+  bay: string
+): Trainset[] {
+  const t = trains.find((x) => x.id === trainId);
+  if (!t || (t.stabledAt === depot && t.bay === bay)) return [];
+  const occupants = trains.filter(
+    (x) => x.id !== trainId && x.stabledAt === depot && x.bay === bay
+  );
+  return [
+    { ...t, stabledAt: depot, bay },
+    ...(occupants.length === 1
+      ? [{ ...occupants[0], stabledAt: t.stabledAt, bay: t.bay }]
+      : []),
+  ];
+}
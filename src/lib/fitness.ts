@@ -0,0 +1,196 @@
+import type {
+  FitnessBlock,
+  FitnessCertificate,
+  FitnessDepartment,
+  ImportIssue,
+  Trainset,
+} from "./types";
+
+// -------------------------------------------------------------
+// Fitness certificate JSON import (schema: public/schemas/fitness-certificates.v1.json)
+// -------------------------------------------------------------
+
+export const FITNESS_SCHEMA_VERSION = 1;
+
+export const FITNESS_DEPARTMENTS: Record<
+  FitnessDepartment,
+  { label: string; field: keyof Trainset["fitness"] }
+> = {
+  ROLLING_STOCK: { label: "Rolling-Stock", field: "rollingStockValidTill" },
+  SIGNALLING: { label: "Signalling", field: "signallingValidTill" },
+  TELECOM: { label: "Telecom", field: "telecomValidTill" },
+};
+
+export function daysLeft(iso: string) {
+  return Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 3600 * 1000));
+}
+
+// The certificate closest to expiry; this is the one that blocks induction at <= 0 days.
+export function weakestCertificate(t: Trainset): FitnessBlock {
+  let weakest: FitnessBlock | null = null;
+  for (const dept of Object.keys(FITNESS_DEPARTMENTS) as FitnessDepartment[]) {
+    const d = daysLeft(t.fitness[FITNESS_DEPARTMENTS[dept].field]);
+    // NaN (invalid date) is treated as the weakest possible certificate
+    const left = Number.isFinite(d) ? d : -Infinity;
+    if (!weakest || left < weakest.daysLeft) {
+      weakest = {
+        department: dept,
+        daysLeft: left,
+        certificate: t.certificates?.[dept] ?? null,
+      };
+    }
+  }
+  return weakest!;
+}
+
+export function describeBlock(b: FitnessBlock) {
+  const label = FITNESS_DEPARTMENTS[b.department].label;
+  const when = Number.isFinite(b.daysLeft)
+    ? `expired ${Math.abs(b.daysLeft)}d ago`
+    : "has no valid date";
+  if (!b.certificate) return `${label} fitness ${when} (no certificate on record)`;
+  const c = b.certificate;
+  return `${label} certificate ${c.certificateId} ${when} — issued ${c.issuedOn.slice(
+    0,
+    10
+  )} by ${c.certifier}, from ${c.sourceFile} (imported ${new Date(
+    c.importedAt
+  ).toLocaleString()})`;
+}
+
+export type FitnessPreview = {
+  fileName: string;
+  importedAt: string;
+  certificates: FitnessCertificate[];
+  issues: ImportIssue[];
+  fatal: string | null;
+};
+
+const isIsoDate = (v: unknown): v is string =>
+  typeof v === "string" &&
+  /^\d{4}-\d{2}-\d{2}/.test(v) &&
+  !Number.isNaN(new Date(v).getTime());
+
+const nonEmpty = (v: unknown): v is string =>
+  typeof v === "string" && v.trim() !== "";
+
+export function parseFitnessJson(
+  text: string,
+  fileName: string,
+  knownTrainIds: Iterable<string>
+): FitnessPreview {
+  const importedAt = new Date().toISOString();
+  const preview: FitnessPreview = {
+    fileName,
+    importedAt,
+    certificates: [],
+    issues: [],
+    fatal: null,
+  };
+
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    preview.fatal = `Not valid JSON: ${(e as Error).message}`;
+    return preview;
+  }
+
+  if (typeof doc !== "object" || doc === null || Array.isArray(doc)) {
+    preview.fatal = "Top level must be an object with schemaVersion and certificates.";
+    return preview;
+  }
+  const { schemaVersion, certificates } = doc as Record<string, unknown>;
+  if (schemaVersion !== FITNESS_SCHEMA_VERSION) {
+    preview.fatal = `Unsupported schemaVersion ${JSON.stringify(
+      schemaVersion
+    )} (expected ${FITNESS_SCHEMA_VERSION}).`;
+    return preview;
+  }
+  if (!Array.isArray(certificates)) {
+    preview.fatal = "certificates must be an array.";
+    return preview;
+  }
+
+  const known = new Set(knownTrainIds);
+  const seen = new Set<string>();
+
+  certificates.forEach((raw, i) => {
+    const row = i + 1;
+    const error = (message: string) =>
+      preview.issues.push({ row, level: "error", message });
+
+    if (typeof raw !== "object" || raw === null) {
+      return error("Record is not an object.");
+    }
+    const r = raw as Record<string, unknown>;
+    const id = nonEmpty(r.certificateId) ? r.certificateId.trim() : null;
+    const problems: string[] = [];
+
+    if (!id) problems.push("certificateId is required");
+    if (!nonEmpty(r.trainId)) problems.push("trainId is required");
+    if (
+      typeof r.department !== "string" ||
+      !Object.hasOwn(FITNESS_DEPARTMENTS, r.department)
+    ) {
+      problems.push(
+        `department must be one of ${Object.keys(FITNESS_DEPARTMENTS).join(", ")}`
+      );
+    }
+    if (!isIsoDate(r.issuedOn)) problems.push("issuedOn must be an ISO date");
+    if (!isIsoDate(r.validTill)) problems.push("validTill must be an ISO date");
+    if (!nonEmpty(r.certifier)) problems.push("certifier is required");
+    if (problems.length) return error(`${id ?? "?"}: ${problems.join("; ")}.`);
+
+    const trainId = (r.trainId as string).trim().toUpperCase();
+    if (seen.has(id!)) return error(`${id}: duplicate certificateId.`);
+    seen.add(id!);
+    if (!known.has(trainId)) return error(`${id}: unknown train ID "${trainId}".`);
+
+    const issuedOn = new Date(r.issuedOn as string).toISOString();
+    const validTill = new Date(r.validTill as string).toISOString();
+    if (validTill < issuedOn) return error(`${id}: validTill is before issuedOn.`);
+
+    preview.certificates.push({
+      certificateId: id!,
+      trainId,
+      department: r.department as FitnessDepartment,
+      issuedOn,
+      validTill,
+      certifier: (r.certifier as string).trim(),
+      sourceFile: fileName,
+      importedAt,
+    });
+  });
+
+  return preview;
+}
+
+// Apply incoming certificates to one trainset; an older issue than the one on
+// record is ignored. Shared by the JSON import and the live UNS feed.
+export function withCertificates(
+  t: Trainset,
+  incoming: FitnessCertificate[]
+): Trainset {
+  const fitness = { ...t.fitness };
+  const certificates = { ...t.certificates };
+  incoming.forEach((c) => {
+    const current = certificates[c.department];
+    if (current && current.issuedOn > c.issuedOn) return;
+    certificates[c.department] = c;
+    fitness[FITNESS_DEPARTMENTS[c.department].field] = c.validTill;
+  });
+  return { ...t, fitness, certificates };
+}
+
+export function applyFitnessImport(
+  trains: Trainset[],
+  preview: FitnessPreview
+): Trainset[] {
+  const byTrain: Record<string, FitnessCertificate[]> = {};
+  preview.certificates.forEach((c) => (byTrain[c.trainId] ??= []).push(c));
+
+  return trains.map((t) =>
+    byTrain[t.id] ? withCertificates(t, byTrain[t.id]) : t
+  );
+}
@@ -0,0 +1,107 @@
+import { getAll, put, putAll } from "./db";
+import { withJobCardDefaults } from "./jobCards";
+import type { Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Persistent fleet store (IndexedDB "trainsets")
+// -------------------------------------------------------------
+
+export const DEPOTS: Trainset["stabledAt"][] = [
+  "MAIN_DEPOT_A",
+  "MAIN_DEPOT_B",
+  "SATELLITE",
+];
+export const STATUSES: Trainset["status"][] = ["Ready", "Standby", "IBL"];
+
+// Deterministic PRNG so the first-run demo fleet is the same on every machine
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Demo fleet written once on first load; after that the store is the source of truth
+function demoFleet(): Trainset[] {
+  const rand = mulberry32(25);
+  const days = (d: number) =>
+    new Date(Date.now() + d * 24 * 3600 * 1000).toISOString();
+  return Array.from({ length: 25 }).map((_, i) => {
+    const mileageKm = 30000 + Math.round(rand() * 12000);
+    return {
+      id: `KMRL-TS-${String(i + 1).padStart(2, "0")}`,
+      carCount: 4,
+      mileageKm,
+      lastServiceKm: mileageKm - (1000 + Math.round(rand() * 5000)),
+      fitness: {
+        rollingStockValidTill: days(2 + Math.floor(rand() * 20)),
+        signallingValidTill: days(1 + Math.floor(rand() * 15)),
+        telecomValidTill: days(-2 + Math.floor(rand() * 10)),
+      },
+      jobCardsOpen: Math.floor(rand() * 4),
+      branding: { campaigns: [] }, // filled from the advertiser sheet import
+      cleaningDue: rand() > 0.6,
+      stabledAt: rand() > 0.7 ? "SATELLITE" : rand() > 0.5 ? "MAIN_DEPOT_B" : "MAIN_DEPOT_A",
+      bay: `B${1 + Math.floor(rand() * 12)}`,
+      status: STATUSES[Math.floor(rand() * 3)],
+      retiredAt: null,
+    };
+  });
+}
+
+export async function loadFleet(): Promise<Trainset[]> {
+  const stored = await getAll<Trainset>("trainsets");
+  if (stored.length) {
+    return stored
+      .map((t) =>
+        t.workOrders
+          ? { ...t, workOrders: t.workOrders.map(withJobCardDefaults) }
+          : t
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+  const fleet = demoFleet();
+  await putAll("trainsets", fleet);
+  return fleet;
+}
+
+export function saveTrainset(t: Trainset) {
+  return put("trainsets", t);
+}
+
+export function saveFleet(trains: Trainset[]) {
+  return putAll("trainsets", trains);
+}
+
+export function newTrainset(id: string): Trainset {
+  const today = new Date().toISOString();
+  return {
+    id,
+    carCount: 4,
+    mileageKm: 0,
+    lastServiceKm: 0,
+    // No certificates yet: the train stays blocked until fitness is imported
+    fitness: {
+      rollingStockValidTill: today,
+      signallingValidTill: today,
+      telecomValidTill: today,
+    },
+    jobCardsOpen: 0,
+    branding: { campaigns: [] },
+    cleaningDue: false,
+    stabledAt: "MAIN_DEPOT_A",
+    bay: "",
+    status: "Standby",
+    retiredAt: null,
+  };
+}
+
+export function nextTrainsetId(trains: Trainset[]) {
+  const max = Math.max(
+    0,
+    ...trains.map((t) => Number(t.id.match(/(\d+)$/)?.[1] ?? 0))
+  );
+  return `KMRL-TS-${String(max + 1).padStart(2, "0")}`;
+}
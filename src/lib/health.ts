@@ -0,0 +1,176 @@
+import { activeCampaigns, campaignProgress } from "./branding";
+import type { CleaningSchedule } from "./cleaning";
+import { FITNESS_DEPARTMENTS, weakestCertificate } from "./fitness";
+import type { RankedTrain } from "./types";
+
+// -------------------------------------------------------------
+// Constraint health: pre-finalisation checks over the fleet and
+// the current plan. Any red row gates finalisation.
+// -------------------------------------------------------------
+
+export type HealthLevel = "green" | "amber" | "red";
+
+export type HealthKey =
+  | "fitness"
+  | "jobs"
+  | "branding"
+  | "cleaning"
+  | "stabling";
+
+export type HealthOffender = { trainId: string; detail: string };
+
+export type HealthRow = {
+  key: HealthKey;
+  label: string;
+  level: HealthLevel;
+  summary: string;
+  offenders: HealthOffender[];
+};
+
+// An inducted train whose certificate lapses within this many days is flagged;
+// within a day it would lapse during tomorrow's service
+export const FITNESS_WARN_DAYS = 3;
+export const FITNESS_RED_DAYS = 1;
+export const JOB_CARD_LIMIT = 3;
+export const BRANDING_AMBER = 80;
+export const BRANDING_RED = 60;
+
+export type HealthInput = {
+  ranked: RankedTrain[];
+  inducted: ReadonlySet<string>;
+  cleaning: CleaningSchedule;
+  brandingCompliance: number;
+};
+
+function fitnessRow({ ranked, inducted }: HealthInput): HealthRow {
+  const offenders = ranked
+    .filter((r) => inducted.has(r.id))
+    .map((r) => ({ r, block: weakestCertificate(r) }))
+    .filter(({ block }) => block.daysLeft <= FITNESS_WARN_DAYS)
+    .map(({ r, block }) => ({
+      trainId: r.id,
+      days: block.daysLeft,
+      detail: `${FITNESS_DEPARTMENTS[block.department].label} expires in ${
+        block.daysLeft
+      }d`,
+    }));
+  const red = offenders.filter((o) => o.days <= FITNESS_RED_DAYS).length;
+  const blocked = ranked.filter((r) => r.blocked).length;
+  return {
+    key: "fitness",
+    label: "Fitness Certificates",
+    level: red ? "red" : offenders.length ? "amber" : "green",
+    summary: offenders.length
+      ? `${offenders.length} inducted expiring ≤${FITNESS_WARN_DAYS}d`
+      : blocked
+      ? `OK · ${blocked} blocked`
+      : "OK",
+    offenders: offenders.map(({ trainId, detail }) => ({ trainId, detail })),
+  };
+}
+
+function jobsRow({ ranked, inducted }: HealthInput): HealthRow {
+  const offenders = ranked
+    .filter((r) => inducted.has(r.id) && r.jobCardsOpen >= JOB_CARD_LIMIT)
+    .map((r) => ({
+      trainId: r.id,
+      detail: `${r.jobCardsOpen} open job cards`,
+    }));
+  const blocked = ranked.filter((r) => r.blockedByJobs.length).length;
+  return {
+    key: "jobs",
+    label: "Job-Card Conflicts",
+    level: offenders.length ? "red" : "green",
+    summary: offenders.length
+      ? `${offenders.length} inducted`
+      : blocked
+      ? `None · ${blocked} held on safety cards`
+      : "None",
+    offenders,
+  };
+}
+
+function brandingRow({ ranked, brandingCompliance }: HealthInput): HealthRow {
+  const offenders = ranked.flatMap((r) =>
+    activeCampaigns(r)
+      .filter((c) => !campaignProgress(c).onPace)
+      .map((c) => ({
+        trainId: r.id,
+        detail: `${c.name}: ${Math.round(
+          campaignProgress(c).behindHours
+        )}h behind`,
+      }))
+  );
+  return {
+    key: "branding",
+    label: "Branding SLA Risk",
+    level:
+      brandingCompliance < BRANDING_RED
+        ? "red"
+        : brandingCompliance < BRANDING_AMBER
+        ? "amber"
+        : "green",
+    summary: `${brandingCompliance}%`,
+    offenders,
+  };
+}
+
+function cleaningRow({ ranked, inducted, cleaning }: HealthInput): HealthRow {
+  const missed = new Set(cleaning.missed);
+  // Only a manual override can put an uncleaned train into service
+  const inductedDirty = ranked.filter(
+    (r) => inducted.has(r.id) && missed.has(r.id)
+  );
+  return {
+    key: "cleaning",
+    label: "Cleaning Bay Load",
+    level: inductedDirty.length ? "red" : missed.size ? "amber" : "green",
+    summary: `${cleaning.assignments.length}/${cleaning.capacity} slots${
+      missed.size ? ` · ${missed.size} missed` : ""
+    }`,
+    offenders: cleaning.missed.map((id) => ({
+      trainId: id,
+      detail: inducted.has(id)
+        ? "Inducted without a cleaning slot"
+        : "No cleaning slot tonight",
+    })),
+  };
+}
+
+function stablingRow({ ranked }: HealthInput): HealthRow {
+  const byBay = new Map<string, RankedTrain[]>();
+  ranked.forEach((r) => {
+    const key = `${r.stabledAt} / ${r.bay}`;
+    byBay.set(key, [...(byBay.get(key) ?? []), r]);
+  });
+  const offenders = [...byBay.entries()]
+    .filter(([, trains]) => trains.length > 1)
+    .flatMap(([bay, trains]) =>
+      trains.map((t) => ({
+        trainId: t.id,
+        detail: `Shares ${bay} with ${trains
+          .filter((o) => o !== t)
+          .map((o) => o.id)
+          .join(", ")}`,
+      }))
+    );
+  return {
+    key: "stabling",
+    label: "Stabling Geometry",
+    level: offenders.length ? "red" : "green",
+    summary: offenders.length
+      ? `${offenders.length} trains in conflicting bays`
+      : "No bay conflicts",
+    offenders,
+  };
+}
+
+export function constraintHealth(input: HealthInput): HealthRow[] {
+  return [
+    fitnessRow(input),
+    jobsRow(input),
+    brandingRow(input),
+    cleaningRow(input),
+    stablingRow(input),
+  ];
+}
@@ -0,0 +1,245 @@
+import { SERVICE_HOURS_PER_DAY, isActive } from "./branding";
+import { scheduleCleaning, type CleaningShift } from "./cleaning";
+import { getAll, put, remove } from "./db";
+import { weakestCertificate } from "./fitness";
+import { mileageModel, mileageStats } from "./mileage";
+import { DEFAULT_SHUNT_BUDGET, optimiseInduction } from "./optimiser";
+import { shiftNight } from "./overrides";
+import { DAILY_SERVICE_KM } from "./scenarios";
+import { describeBlocked, rankTrains, scoreTrain } from "./scoring";
+import type {
+  MaintenanceWindow,
+  OverrideDecision,
+  PlanDecision,
+  Trainset,
+  Weights,
+} from "./types";
+
+// -------------------------------------------------------------
+// Rolling horizon planner: runs the nightly optimiser over the
+// next HORIZON_NIGHTS nights on a projected fleet, carrying each
+// night's decisions forward (mileage, cleaning cycle, branding
+// hours, maintenance windows). Recomputed whenever data changes,
+// so each evening re-plans from the latest actuals.
+// -------------------------------------------------------------
+
+export const HORIZON_NIGHTS = 7;
+
+// Service days a rake runs between deep cleans
+export const CLEANING_CYCLE_DAYS = 3;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Search budget per night; the horizon is a projection, not the final plan
+const NODE_BUDGET = 2000;
+
+export type HorizonDecision = PlanDecision | "Maintenance";
+
+export type HorizonCell = {
+  decision: HorizonDecision;
+  cleaned: boolean; // given a cleaning slot that night
+  fitnessDays: number; // weakest certificate, days left at that dawn
+  note: string | null; // why it was held back, or the maintenance note
+};
+
+export type HorizonNight = {
+  night: string;
+  inducted: number;
+  fit: number;
+  unmet: string[];
+  mileageSpreadKm: number; // std. deviation of fleet mileage after the night's service
+};
+
+export type HorizonPlan = {
+  nights: HorizonNight[];
+  cells: Record<string, HorizonCell[]>; // trainId -> one cell per night
+  endMileageKm: Record<string, number>; // odometer after the last night's service
+};
+
+export type HorizonInput = {
+  trains: Trainset[];
+  startNight: string;
+  weights: Weights;
+  serviceDemand: number;
+  minReserve: number;
+  cleaningBays: number;
+  cleaningShifts: CleaningShift[];
+  respectBranding: boolean;
+  serviceIntervalKm: number;
+  overrides: Readonly<Record<string, OverrideDecision>>; // tonight only
+  windows: MaintenanceWindow[];
+};
+
+// The train as it will look `days` from now: every date moves that much closer
+function projectDates(t: Trainset, days: number): Trainset {
+  const earlier = (iso: string) =>
+    new Date(new Date(iso).getTime() - days * DAY_MS).toISOString();
+  return {
+    ...t,
+    fitness: {
+      rollingStockValidTill: earlier(t.fitness.rollingStockValidTill),
+      signallingValidTill: earlier(t.fitness.signallingValidTill),
+      telecomValidTill: earlier(t.fitness.telecomValidTill),
+    },
+    branding: {
+      campaigns: t.branding.campaigns.map((c) => ({
+        ...c,
+        start: earlier(c.start),
+        end: earlier(c.end),
+      })),
+    },
+  };
+}
+
+export function windowCovers(w: MaintenanceWindow, night: string) {
+  return night >= w.startNight && night < shiftNight(w.startNight, w.nights);
+}
+
+export function planHorizon(input: HorizonInput): HorizonPlan {
+  let fleet = input.trains;
+  // service days since each train's last deep clean
+  const sinceClean = new Map(
+    fleet.map((t) => [t.id, t.cleaningDue ? CLEANING_CYCLE_DAYS : 0])
+  );
+  const cells: Record<string, HorizonCell[]> = Object.fromEntries(
+    fleet.map((t) => [t.id, []])
+  );
+  const nights: HorizonNight[] = [];
+
+  for (let k = 0; k < HORIZON_NIGHTS; k++) {
+    const night = shiftNight(input.startNight, k);
+    const maintenance = new Map(
+      input.windows
+        .filter((w) => windowCovers(w, night))
+        .map((w) => [w.trainId, w])
+    );
+    const projected = fleet.map((t) => projectDates(t, k));
+    const mileage = mileageModel(projected, input.serviceIntervalKm);
+
+    // Cleaning: same queue as tonight's scheduler, most wanted trains first
+    const due = projected
+      .filter((t) => t.cleaningDue && !maintenance.has(t.id))
+      .map((t) => ({
+        id: t.id,
+        s: scoreTrain(t, input.weights, mileage, true).total,
+      }))
+      .filter((d) => Number.isFinite(d.s))
+      .sort((a, b) => b.s - a.s)
+      .map((d) => d.id);
+    const cleaning = scheduleCleaning(
+      due,
+      input.cleaningBays,
+      input.cleaningShifts
+    );
+    const cleaned = new Set(cleaning.assignments.map((a) => a.trainId));
+
+    const ranked = rankTrains(
+      projected,
+      input.weights,
+      mileage,
+      (t) => !t.cleaningDue || cleaned.has(t.id)
+    );
+    const overrides: Record<string, OverrideDecision> = {
+      ...(k === 0 ? input.overrides : {}),
+      ...Object.fromEntries(
+        [...maintenance.keys()].map((id) => [id, "IBL" as const])
+      ),
+    };
+    const plan = optimiseInduction(
+      {
+        ranked,
+        serviceDemand: input.serviceDemand,
+        uncleaned: new Set(cleaning.missed),
+        minReserve: input.minReserve,
+        shuntBudget: DEFAULT_SHUNT_BUDGET,
+        respectBranding: input.respectBranding,
+        minimiseShunting: false,
+        overrides,
+      },
+      { nodeBudget: NODE_BUDGET }
+    );
+    const decisions = plan.decisions;
+    const inducted = new Set(plan.inducted);
+
+    ranked.forEach((r) =>
+      cells[r.id].push({
+        decision: maintenance.has(r.id) ? "Maintenance" : decisions[r.id],
+        cleaned: cleaned.has(r.id),
+        fitnessDays: weakestCertificate(r).daysLeft,
+        note: maintenance.has(r.id)
+          ? maintenance.get(r.id)!.note || "Maintenance window"
+          : describeBlocked(r) ?? plan.heldBack[r.id] ?? null,
+      })
+    );
+    nights.push({
+      night,
+      inducted: inducted.size,
+      fit: ranked.filter((r) => !r.blocked).length,
+      unmet: plan.unmet.map((u) => u.message),
+      mileageSpreadKm: Math.round(
+        mileageStats(
+          projected.map(
+            (t) => t.mileageKm + (inducted.has(t.id) ? DAILY_SERVICE_KM : 0)
+          )
+        ).sd
+      ),
+    });
+
+    // Carry tonight's outcome into tomorrow's fleet
+    const dawn = Date.now() + (k + 1) * DAY_MS;
+    fleet = fleet.map((t) => {
+      let next = t;
+      if (inducted.has(t.id)) {
+        sinceClean.set(t.id, sinceClean.get(t.id)! + 1);
+        next = {
+          ...next,
+          mileageKm: next.mileageKm + DAILY_SERVICE_KM,
+          branding: {
+            campaigns: next.branding.campaigns.map((c) =>
+              isActive(c, dawn)
+                ? {
+                    ...c,
+                    deliveredHours: c.deliveredHours + SERVICE_HOURS_PER_DAY,
+                  }
+                : c
+            ),
+          },
+        };
+      }
+      if (cleaned.has(t.id)) sinceClean.set(t.id, 0);
+      const w = maintenance.get(t.id);
+      if (w && !windowCovers(w, shiftNight(night, 1))) {
+        // window over: open work is closed and the service interval restarts
+        next = {
+          ...next,
+          jobCardsOpen: 0,
+          workOrders: [],
+          lastServiceKm: next.mileageKm,
+        };
+      }
+      return {
+        ...next,
+        cleaningDue: sinceClean.get(t.id)! >= CLEANING_CYCLE_DAYS,
+      };
+    });
+  }
+
+  return {
+    nights,
+    cells,
+    endMileageKm: Object.fromEntries(fleet.map((t) => [t.id, t.mileageKm])),
+  };
+}
+
+export async function loadMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+  const all = await getAll<MaintenanceWindow>("maintenance");
+  return all.sort((a, b) => a.startNight.localeCompare(b.startNight));
+}
+
+export function saveMaintenanceWindow(w: MaintenanceWindow) {
+  return put("maintenance", w);
+}
+
+export function deleteMaintenanceWindow(id: string) {
+  return remove("maintenance", id);
+}
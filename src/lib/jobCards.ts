@@ -0,0 +1,93 @@
+import { JOB_CATEGORIES, isOpenWorkOrder } from "./maximo";
+import type { Trainset, WorkOrder } from "./types";
+
+// -------------------------------------------------------------
+// Job cards: open Maximo work orders weighed by priority. Open
+// safety-critical cards block induction like expired fitness;
+// the rest lower the jobs score by how much work is outstanding.
+// -------------------------------------------------------------
+
+// How much one open card of each priority (1 highest) counts against the train
+const PRIORITY_LOAD: Record<number, number> = {
+  1: 1,
+  2: 0.7,
+  3: 0.4,
+  4: 0.2,
+  5: 0.1,
+};
+
+// Cards past their target close date count this much more
+const OVERDUE_FACTOR = 1.5;
+
+// Load at which the jobs score reaches 0 (about three priority-3 cards)
+export const JOB_LOAD_LIMIT = 1.2;
+
+// Fields older stored work orders may lack
+export function withJobCardDefaults(wo: WorkOrder): WorkOrder {
+  const category = wo.category ?? "OTHER";
+  return {
+    ...wo,
+    category,
+    safetyCritical:
+      wo.safetyCritical ?? JOB_CATEGORIES[category].safetyCritical,
+    estimatedHours: wo.estimatedHours ?? null,
+    targetCloseAt: wo.targetCloseAt ?? null,
+  };
+}
+
+export function openJobCards(t: Trainset): WorkOrder[] {
+  return (t.workOrders ?? []).filter(isOpenWorkOrder);
+}
+
+// Open cards that keep the train out of service
+export function safetyBlockers(t: Trainset): WorkOrder[] {
+  return openJobCards(t).filter((wo) => wo.safetyCritical);
+}
+
+export function isOverdue(wo: WorkOrder, now = Date.now()) {
+  return !!wo.targetCloseAt && new Date(wo.targetCloseAt).getTime() < now;
+}
+
+// Counts without records (manual entry, demo data) are taken as priority 3
+export function jobLoad(t: Trainset, now = Date.now()) {
+  const cards = openJobCards(t);
+  const unrecorded = Math.max(0, t.jobCardsOpen - cards.length);
+  return cards.reduce(
+    (sum, wo) =>
+      sum +
+      (PRIORITY_LOAD[wo.priority] ?? PRIORITY_LOAD[3]) *
+        (isOverdue(wo, now) ? OVERDUE_FACTOR : 1),
+    unrecorded * PRIORITY_LOAD[3]
+  );
+}
+
+// 0..1: 1 with no open work, 0 at JOB_LOAD_LIMIT or more
+export function jobScore(t: Trainset, now = Date.now()) {
+  return Math.max(0, 1 - Math.min(1, jobLoad(t, now) / JOB_LOAD_LIMIT));
+}
+
+export type JobCardSummary = {
+  open: number;
+  safetyCritical: number;
+  overdue: number;
+  hours: number; // estimated hours still to do, where known
+};
+
+export function jobCardSummary(t: Trainset, now = Date.now()): JobCardSummary {
+  const cards = openJobCards(t);
+  return {
+    open: Math.max(t.jobCardsOpen, cards.length),
+    safetyCritical: cards.filter((wo) => wo.safetyCritical).length,
+    overdue: cards.filter((wo) => isOverdue(wo, now)).length,
+    hours: cards.reduce((sum, wo) => sum + (wo.estimatedHours ?? 0), 0),
+  };
+}
+
+export function describeJobBlock(cards: WorkOrder[]) {
+  const first = cards[0];
+  const label = JOB_CATEGORIES[first.category].label;
+  const more = cards.length > 1 ? ` (+${cards.length - 1} more)` : "";
+  return `Safety-critical job card ${first.woId} open — ${label}${
+    first.description ? `: ${first.description}` : ""
+  }${more}`;
+}
@@ -0,0 +1,205 @@
+import { parseCsv } from "./csv";
+import { getAll, putAll } from "./db";
+import { shiftNight } from "./overrides";
+import type { ImportIssue, NightKpi } from "./types";
+
+// -------------------------------------------------------------
+// Nightly KPI history: planned figures are written when a night is
+// finalised, actuals come from the service data CSV import
+// Expected header: SERVICE_DATE, RAKES_IN_SERVICE, PUNCTUALITY_PCT[, AVAILABILITY_PCT]
+// -------------------------------------------------------------
+
+export const KPI_RANGES = [7, 14, 30, 90] as const;
+export type KpiRange = (typeof KPI_RANGES)[number];
+
+const REQUIRED_COLUMNS = [
+  "SERVICE_DATE",
+  "RAKES_IN_SERVICE",
+  "PUNCTUALITY_PCT",
+] as const;
+
+export function emptyKpi(night: string): NightKpi {
+  return {
+    night,
+    serviceDemand: null,
+    plannedInducted: null,
+    actualInducted: null,
+    availability: null,
+    punctuality: null,
+    shuntingCost: null,
+    brandingCompliance: null,
+    finalisedAt: null,
+    actualsImportedAt: null,
+  };
+}
+
+export type PlannedKpi = Pick<
+  NightKpi,
+  | "serviceDemand"
+  | "plannedInducted"
+  | "availability"
+  | "shuntingCost"
+  | "brandingCompliance"
+>;
+
+// Re-finalising a night replaces the planned figures but keeps imported actuals
+export function finaliseKpi(
+  night: string,
+  existing: NightKpi | undefined,
+  planned: PlannedKpi
+): NightKpi {
+  const base = existing ?? emptyKpi(night);
+  return {
+    ...base,
+    ...planned,
+    // imported availability is measured, so it wins over the planned figure
+    availability:
+      base.actualsImportedAt && base.availability !== null
+        ? base.availability
+        : planned.availability,
+    finalisedAt: new Date().toISOString(),
+  };
+}
+
+export type ActualsRecord = {
+  night: string;
+  actualInducted: number;
+  punctuality: number;
+  availability: number | null;
+};
+
+export type ActualsPreview = {
+  fileName: string;
+  totalRows: number;
+  records: ActualsRecord[];
+  issues: ImportIssue[];
+  fatal: string | null;
+};
+
+export function parseActualsCsv(
+  text: string,
+  fileName: string
+): ActualsPreview {
+  const preview: ActualsPreview = {
+    fileName,
+    totalRows: 0,
+    records: [],
+    issues: [],
+    fatal: null,
+  };
+
+  const rows = parseCsv(text);
+  if (!rows.length) {
+    preview.fatal = "File is empty.";
+    return preview;
+  }
+
+  const header = rows[0].map((h) => h.trim().toUpperCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length) {
+    preview.fatal = `Missing required column(s): ${missing.join(", ")}.`;
+    return preview;
+  }
+  const col = (name: string) => header.indexOf(name);
+  const idx = {
+    date: col("SERVICE_DATE"),
+    rakes: col("RAKES_IN_SERVICE"),
+    punctuality: col("PUNCTUALITY_PCT"),
+    availability: col("AVAILABILITY_PCT"),
+  };
+
+  const seen = new Map<string, number>(); // night -> first line seen
+
+  rows.slice(1).forEach((cells, i) => {
+    const line = i + 2;
+    preview.totalRows++;
+    const error = (message: string) =>
+      preview.issues.push({ row: line, level: "error", message });
+    const cell = (j: number) => (j >= 0 ? cells[j]?.trim() ?? "" : "");
+
+    const date = cell(idx.date);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      return error(`SERVICE_DATE "${date}" is not a YYYY-MM-DD date.`);
+    }
+    const rakes = Number(cell(idx.rakes));
+    if (!cell(idx.rakes) || !Number.isInteger(rakes) || rakes < 0) {
+      return error(`RAKES_IN_SERVICE "${cell(idx.rakes)}" is not a count.`);
+    }
+    const pct = (name: string, raw: string) => {
+      const v = Number(raw);
+      if (!raw || !Number.isFinite(v) || v < 0 || v > 100) {
+        error(`${name} "${raw}" is not a percentage (0–100).`);
+        return null;
+      }
+      return v;
+    };
+    const punctuality = pct("PUNCTUALITY_PCT", cell(idx.punctuality));
+    if (punctuality === null) return;
+    let availability: number | null = null;
+    if (cell(idx.availability)) {
+      availability = pct("AVAILABILITY_PCT", cell(idx.availability));
+      if (availability === null) return;
+    }
+
+    // A service day runs on the rakes inducted the evening before
+    const night = shiftNight(date, -1);
+    if (seen.has(night)) {
+      return error(
+        `Duplicate SERVICE_DATE ${date} (first seen on line ${seen.get(
+          night
+        )}).`
+      );
+    }
+    seen.set(night, line);
+    preview.records.push({
+      night,
+      actualInducted: rakes,
+      punctuality,
+      availability,
+    });
+  });
+
+  return preview;
+}
+
+// Returns the history records touched by the import, ready to store
+export function applyActualsImport(
+  history: NightKpi[],
+  preview: ActualsPreview
+): NightKpi[] {
+  const byNight = new Map(history.map((k) => [k.night, k]));
+  const importedAt = new Date().toISOString();
+  return preview.records.map((r) => {
+    const base = byNight.get(r.night) ?? emptyKpi(r.night);
+    return {
+      ...base,
+      actualInducted: r.actualInducted,
+      punctuality: r.punctuality,
+      availability: r.availability ?? base.availability,
+      actualsImportedAt: importedAt,
+    };
+  });
+}
+
+// One point per night for the last `days` nights up to `lastNight`; nights
+// without a record are null so the chart shows a gap
+export function kpiSeries(
+  history: NightKpi[],
+  days: KpiRange,
+  lastNight: string
+) {
+  const byNight = new Map(history.map((k) => [k.night, k]));
+  return Array.from({ length: days }).map((_, i) => {
+    const night = shiftNight(lastNight, i - days + 1);
+    return { ...(byNight.get(night) ?? emptyKpi(night)), day: night.slice(5) };
+  });
+}
+
+export async function loadKpis(): Promise<NightKpi[]> {
+  const stored = await getAll<NightKpi>("kpis");
+  return stored.sort((a, b) => a.night.localeCompare(b.night));
+}
+
+export function saveKpis(records: NightKpi[]) {
+  return putAll("kpis", records);
+}
@@ -0,0 +1,124 @@
+import type { StyleSpecification } from "mapbox-gl";
+
+// -------------------------------------------------------------
+// Map provider settings. Defaults come from the environment and
+// can be changed per browser (localStorage "kmrl.map"):
+//   mapbox     Mapbox hosted style, needs VITE_MAPBOX_TOKEN
+//   custom     self-hosted style JSON or raster tiles; no token needed
+//              unless the style is on Mapbox (mapbox://), so it works
+//              air-gapped
+//   schematic  line diagram drawn locally, no tiles at all
+// -------------------------------------------------------------
+
+export type MapProvider = "mapbox" | "custom" | "schematic";
+
+export type MapSettings = {
+  provider: MapProvider;
+  token: string; // Mapbox access token
+  styleUrl: string; // style JSON for vector/raster tiles served locally
+  tilesUrl: string; // raster tile template, e.g. /tiles/{z}/{x}/{y}.png
+  glyphsUrl: string; // font glyphs for labels on custom styles
+};
+
+export const MAP_PROVIDERS: Record<MapProvider, string> = {
+  mapbox: "Mapbox",
+  custom: "Self-hosted tiles",
+  schematic: "Schematic (offline)",
+};
+
+const STORAGE_KEY = "kmrl.map";
+
+function isMapProvider(value: unknown): value is MapProvider {
+  return typeof value === "string" && Object.hasOwn(MAP_PROVIDERS, value);
+}
+
+function envSettings(): MapSettings {
+  const env = import.meta.env;
+  const settings = {
+    token: env.VITE_MAPBOX_TOKEN ?? "",
+    styleUrl: env.VITE_MAP_STYLE_URL ?? "",
+    tilesUrl: env.VITE_MAP_TILES_URL ?? "",
+    glyphsUrl: env.VITE_MAP_GLYPHS_URL ?? "",
+  };
+  const provider = isMapProvider(env.VITE_MAP_PROVIDER)
+    ? env.VITE_MAP_PROVIDER
+    : settings.styleUrl || settings.tilesUrl
+    ? "custom"
+    : settings.token
+    ? "mapbox"
+    : "schematic";
+  return { provider, ...settings };
+}
+
+// Stored settings are checked field by field; anything missing or of the
+// wrong type falls back to the environment default
+export function loadMapSettings(): MapSettings {
+  const defaults = envSettings();
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return defaults;
+  }
+  if (!stored || typeof stored !== "object") return defaults;
+  const s = stored as Record<string, unknown>;
+  const text = (key: Exclude<keyof MapSettings, "provider">) => {
+    const value = s[key];
+    return typeof value === "string" ? value : defaults[key];
+  };
+  return {
+    provider: isMapProvider(s.provider) ? s.provider : defaults.provider,
+    token: text("token"),
+    styleUrl: text("styleUrl"),
+    tilesUrl: text("tilesUrl"),
+    glyphsUrl: text("glyphsUrl"),
+  };
+}
+
+export function saveMapSettings(settings: MapSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function resetMapSettings(): MapSettings {
+  localStorage.removeItem(STORAGE_KEY);
+  return envSettings();
+}
+
+// Why a tile-based provider can't be used as configured, or null
+export function mapSettingsProblem(settings: MapSettings) {
+  if (settings.provider === "mapbox" && !settings.token) {
+    return "Mapbox needs an access token";
+  }
+  if (
+    settings.provider === "custom" &&
+    !settings.styleUrl &&
+    !settings.tilesUrl
+  ) {
+    return "Self-hosted tiles need a style or tile URL";
+  }
+  if (
+    settings.provider === "custom" &&
+    settings.styleUrl.startsWith("mapbox://") &&
+    !settings.token
+  ) {
+    return "Styles hosted on Mapbox need an access token";
+  }
+  return null;
+}
+
+// Style for mapbox-gl. Raster tiles get a minimal inline style; without
+// glyphs it can't draw text, so labels are left off.
+export function mapStyle(
+  settings: MapSettings
+): string | StyleSpecification | undefined {
+  if (settings.provider === "mapbox") return undefined; // Mapbox default style
+  if (settings.styleUrl) return settings.styleUrl;
+  return {
+    version: 8,
+    ...(settings.glyphsUrl ? { glyphs: settings.glyphsUrl } : {}),
+    sources: {
+      tiles: { type: "raster", tiles: [settings.tilesUrl], tileSize: 256 },
+    },
+    layers: [{ id: "tiles", type: "raster", source: "tiles" }],
+  };
+}
@@ -0,0 +1,213 @@
+import { parseCsv } from "./csv";
+import type { ImportIssue, JobCategory, Trainset, WorkOrder } from "./types";
+
+// -------------------------------------------------------------
+// Maximo job-card CSV import
+// Expected header: WO_ID, TRAIN_ID, STATUS, PRIORITY[, DESCRIPTION,
+// REPORTED_DATE, CATEGORY, SAFETY_CRITICAL, EST_HOURS, TARGET_DATE]
+// -------------------------------------------------------------
+
+const REQUIRED_COLUMNS = ["WO_ID", "TRAIN_ID", "STATUS", "PRIORITY"] as const;
+
+// Maximo statuses that mean the work order no longer holds the train
+const CLOSED_STATUSES = new Set(["COMP", "CLOSE", "CAN"]);
+const KNOWN_STATUSES = new Set([
+  "WAPPR",
+  "APPR",
+  "WSCH",
+  "WMATL",
+  "WPCOND",
+  "INPRG",
+  ...CLOSED_STATUSES,
+]);
+
+// Failure classes on the work order; the flag is the default when the
+// export has no SAFETY_CRITICAL column
+export const JOB_CATEGORIES: Record<
+  JobCategory,
+  { label: string; safetyCritical: boolean }
+> = {
+  BRAKES: { label: "Brakes", safetyCritical: true },
+  BOGIE: { label: "Bogie & suspension", safetyCritical: true },
+  TRACTION: { label: "Traction", safetyCritical: false },
+  DOORS: { label: "Doors", safetyCritical: true },
+  SIGNALLING: { label: "On-board signalling", safetyCritical: true },
+  HVAC: { label: "HVAC", safetyCritical: false },
+  PIS: { label: "Passenger information", safetyCritical: false },
+  INTERIOR: { label: "Interior", safetyCritical: false },
+  OTHER: { label: "Other", safetyCritical: false },
+};
+
+export type MaximoPreview = {
+  fileName: string;
+  totalRows: number;
+  accepted: WorkOrder[]; // valid rows, open and closed
+  openByTrain: Record<string, WorkOrder[]>;
+  issues: ImportIssue[];
+  fatal: string | null; // set when the file can't be read at all
+};
+
+export function isOpenWorkOrder(wo: WorkOrder) {
+  return !CLOSED_STATUSES.has(wo.status);
+}
+
+export function parseMaximoCsv(
+  text: string,
+  fileName: string,
+  knownTrainIds: Iterable<string>
+): MaximoPreview {
+  const preview: MaximoPreview = {
+    fileName,
+    totalRows: 0,
+    accepted: [],
+    openByTrain: {},
+    issues: [],
+    fatal: null,
+  };
+
+  const rows = parseCsv(text);
+  if (!rows.length) {
+    preview.fatal = "File is empty.";
+    return preview;
+  }
+
+  const header = rows[0].map((h) => h.trim().toUpperCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length) {
+    preview.fatal = `Missing required column(s): ${missing.join(", ")}.`;
+    return preview;
+  }
+  const col = (name: string) => header.indexOf(name);
+  const idx = {
+    woId: col("WO_ID"),
+    trainId: col("TRAIN_ID"),
+    status: col("STATUS"),
+    priority: col("PRIORITY"),
+    description: col("DESCRIPTION"),
+    reportedAt: col("REPORTED_DATE"),
+    category: col("CATEGORY"),
+    safetyCritical: col("SAFETY_CRITICAL"),
+    estimatedHours: col("EST_HOURS"),
+    targetCloseAt: col("TARGET_DATE"),
+  };
+
+  const known = new Set(knownTrainIds);
+  const seen = new Map<string, number>(); // WO_ID -> first line seen
+
+  rows.slice(1).forEach((cells, i) => {
+    const line = i + 2;
+    preview.totalRows++;
+    const error = (message: string) =>
+      preview.issues.push({ row: line, level: "error", message });
+
+    if (cells.length < header.length) {
+      error(`Expected ${header.length} columns, found ${cells.length}.`);
+      return;
+    }
+
+    const cell = (j: number) => (j >= 0 ? (cells[j] ?? "").trim() : "");
+    const woId = cell(idx.woId);
+    const trainId = cell(idx.trainId).toUpperCase();
+    const status = cell(idx.status).toUpperCase();
+    const priority = Number(cell(idx.priority));
+
+    if (!woId) return error("WO_ID is empty.");
+    if (!trainId) return error(`${woId}: TRAIN_ID is empty.`);
+    if (!status) return error(`${woId}: STATUS is empty.`);
+    if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+      return error(
+        `${woId}: PRIORITY "${cell(idx.priority)}" is not an integer 1–5.`
+      );
+    }
+
+    const firstLine = seen.get(woId);
+    if (firstLine !== undefined) {
+      return error(`${woId}: duplicate WO_ID (first seen on line ${firstLine}).`);
+    }
+    seen.set(woId, line);
+
+    if (!known.has(trainId)) {
+      return error(`${woId}: unknown train ID "${trainId}".`);
+    }
+
+    if (!KNOWN_STATUSES.has(status)) {
+      preview.issues.push({
+        row: line,
+        level: "warning",
+        message: `${woId}: unrecognised STATUS "${status}", treated as open.`,
+      });
+    }
+
+    const warn = (message: string) =>
+      preview.issues.push({ row: line, level: "warning", message });
+    const date = (j: number, column: string) => {
+      const raw = cell(j);
+      if (!raw) return null;
+      const d = new Date(raw);
+      if (Number.isNaN(d.getTime())) {
+        warn(`${woId}: ${column} "${raw}" ignored (not a date).`);
+        return null;
+      }
+      return d.toISOString();
+    };
+
+    const rawCategory = cell(idx.category).toUpperCase();
+    let category: JobCategory = "OTHER";
+    if (rawCategory in JOB_CATEGORIES) {
+      category = rawCategory as JobCategory;
+    } else if (rawCategory) {
+      warn(`${woId}: unrecognised CATEGORY "${rawCategory}", filed as Other.`);
+    }
+
+    const rawSafety = cell(idx.safetyCritical).toUpperCase();
+    let safetyCritical = JOB_CATEGORIES[category].safetyCritical;
+    if (["Y", "YES", "TRUE", "1"].includes(rawSafety)) safetyCritical = true;
+    else if (["N", "NO", "FALSE", "0"].includes(rawSafety))
+      safetyCritical = false;
+    else if (rawSafety) {
+      warn(
+        `${woId}: SAFETY_CRITICAL "${rawSafety}" not Y/N, using the ${JOB_CATEGORIES[category].label} default.`
+      );
+    }
+
+    const rawHours = cell(idx.estimatedHours);
+    let estimatedHours: number | null = null;
+    if (rawHours) {
+      const h = Number(rawHours);
+      if (Number.isFinite(h) && h >= 0) estimatedHours = h;
+      else warn(`${woId}: EST_HOURS "${rawHours}" ignored (not a number).`);
+    }
+
+    const wo: WorkOrder = {
+      woId,
+      trainId,
+      status,
+      priority,
+      description: cell(idx.description),
+      reportedAt: date(idx.reportedAt, "REPORTED_DATE"),
+      category,
+      safetyCritical,
+      estimatedHours,
+      targetCloseAt: date(idx.targetCloseAt, "TARGET_DATE"),
+    };
+    preview.accepted.push(wo);
+    if (isOpenWorkOrder(wo)) {
+      (preview.openByTrain[trainId] ??= []).push(wo);
+    }
+  });
+
+  return preview;
+}
+
+// The nightly export is a full snapshot, so trains with no open rows are reset
+// to zero. Only apply a preview with no errors: a skipped row could be a
+// train's only open work order.
+export function applyMaximoImport(
+  trains: Trainset[],
+  preview: MaximoPreview
+): Trainset[] {
+  return trains.map((t) => {
+    const open = preview.openByTrain[t.id] ?? [];
+    return { ...t, jobCardsOpen: open.length, workOrders: open };
+  });
+}
@@ -0,0 +1,86 @@
+import type { Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Mileage balancing: trains behind the fleet average are wanted
+// for service so wear evens out, and trains running out of km
+// before their next scheduled service are held back.
+// -------------------------------------------------------------
+
+export const DEFAULT_SERVICE_INTERVAL_KM = 5000;
+
+// z-score at which the balance score saturates (0 or 1)
+const BALANCE_Z_SPAN = 2;
+
+export type MileageStats = {
+  mean: number;
+  sd: number;
+  min: number;
+  max: number;
+};
+
+export type MileageModel = {
+  stats: MileageStats;
+  serviceIntervalKm: number;
+};
+
+export function mileageStats(kms: number[]): MileageStats {
+  if (!kms.length) return { mean: 0, sd: 0, min: 0, max: 0 };
+  const mean = kms.reduce((s, x) => s + x, 0) / kms.length;
+  const sd = Math.sqrt(
+    kms.reduce((s, x) => s + (x - mean) ** 2, 0) / kms.length
+  );
+  return { mean, sd, min: Math.min(...kms), max: Math.max(...kms) };
+}
+
+export function mileageModel(
+  trains: Trainset[],
+  serviceIntervalKm = DEFAULT_SERVICE_INTERVAL_KM
+): MileageModel {
+  return {
+    stats: mileageStats(trains.map((t) => t.mileageKm)),
+    serviceIntervalKm,
+  };
+}
+
+export function kmSinceService(t: Trainset) {
+  return t.mileageKm - t.lastServiceKm;
+}
+
+// 0..1: half fleet balance (1 at two s.d. below the mean, 0 at two above),
+// half km left before the service interval. Overdue trains score 0.
+export function mileageScore(t: Trainset, model: MileageModel) {
+  const headroom = 1 - kmSinceService(t) / model.serviceIntervalKm;
+  if (headroom <= 0) return 0;
+  const { mean, sd } = model.stats;
+  const z = sd > 0 ? (t.mileageKm - mean) / sd : 0;
+  const balance = Math.max(0, Math.min(1, 0.5 - z / (2 * BALANCE_Z_SPAN)));
+  return 0.5 * balance + 0.5 * Math.min(1, headroom);
+}
+
+export type MileageBin = { label: string; from: number } & Record<
+  string,
+  number | string
+>;
+
+// Histogram of several mileage snapshots on shared bins, for charting
+export function mileageHistogram(
+  series: Record<string, number[]>,
+  binKm = 2000
+): MileageBin[] {
+  const all = Object.values(series).flat();
+  if (!all.length) return [];
+  const first = Math.floor(Math.min(...all) / binKm) * binKm;
+  const last = Math.floor(Math.max(...all) / binKm) * binKm;
+  const bins: MileageBin[] = [];
+  for (let from = first; from <= last; from += binKm) {
+    const bin: MileageBin = {
+      label: `${from / 1000}–${(from + binKm) / 1000}k`,
+      from,
+    };
+    for (const [name, kms] of Object.entries(series)) {
+      bin[name] = kms.filter((k) => k >= from && k < from + binKm).length;
+    }
+    bins.push(bin);
+  }
+  return bins;
+}
@@ -0,0 +1,344 @@
+import { brandingNeed } from "./branding";
+import { blockLabel } from "./scoring";
+import { SHUNT_WINDOW_MIN, shuntTerms, type ShuntTerms } from "./shunting";
+import type {
+  OverrideDecision,
+  PlanDecision,
+  RankedTrain,
+  Trainset,
+} from "./types";
+
+// -------------------------------------------------------------
+// Induction optimiser: choose tonight's induction set under
+// cleaning, shunting, reserve and branding constraints (branch & bound)
+// -------------------------------------------------------------
+
+type Depot = Trainset["stabledAt"];
+
+// Crew minutes each depot has to release its trains before the first departure
+export const DEFAULT_SHUNT_BUDGET: Record<Depot, number> = {
+  MAIN_DEPOT_A: SHUNT_WINDOW_MIN,
+  MAIN_DEPOT_B: SHUNT_WINDOW_MIN,
+  SATELLITE: SHUNT_WINDOW_MIN,
+};
+
+// Branding need (0..1) above which a train counts as having an exposure target tonight
+export const BRANDING_TARGET_NEED = 0.5;
+
+export type OptimiserInput = {
+  ranked: RankedTrain[];
+  serviceDemand: number;
+  uncleaned: ReadonlySet<string>; // cleaning-due trains that missed a slot tonight
+  minReserve: number; // non-blocked trains to keep back as standby
+  shuntBudget: Record<Depot, number>; // crew minutes per depot
+  respectBranding: boolean;
+  minimiseShunting: boolean; // prefer plans with less shunting over higher scores
+  overrides: Readonly<Record<string, OverrideDecision>>; // manual decisions for tonight
+};
+
+// Cleaning and shunting budgets are hard limits; when they bind they show up
+// as the reason behind a demand shortfall and in `heldBack`.
+export type ConstraintKey = "demand" | "reserve" | "branding" | "override";
+
+export type ConstraintViolation = {
+  constraint: ConstraintKey;
+  message: string;
+};
+
+export type InductionPlan = {
+  inducted: string[]; // rank order
+  decisions: Record<string, PlanDecision>; // every ranked train
+  heldBack: Record<string, string>; // standby train -> constraint that kept it out
+  unmet: ConstraintViolation[];
+  usage: {
+    shunting: Record<Depot, number>; // crew minutes (holding-siding estimate)
+    reserve: number;
+  };
+  nodes: number;
+  optimal: boolean; // false if the node budget ran out before the search finished
+};
+
+type Candidate = {
+  id: string;
+  score: number;
+  depot: Depot;
+  brandingTarget: boolean;
+};
+
+// Objective is lexicographic: rakes inducted, then branding targets met, then
+// (optionally) shunting minutes, then score. Scores are 0..1 per train, so a
+// fleet's total never outweighs one shunting minute.
+const W_COUNT = 1e8;
+const W_BRANDING = 1e5;
+const W_MINUTE = 50;
+
+// How often a long search reports the nodes it has searched
+const PROGRESS_EVERY = 25000;
+
+export function optimiseInduction(
+  input: OptimiserInput,
+  {
+    nodeBudget = 50000,
+    onProgress,
+  }: { nodeBudget?: number; onProgress?: (nodes: number) => void } = {}
+): InductionPlan {
+  const toCandidate = (r: RankedTrain): Candidate => ({
+    id: r.id,
+    score: r.score,
+    depot: r.stabledAt,
+    brandingTarget:
+      input.respectBranding && (brandingNeed(r) ?? 0) >= BRANDING_TARGET_NEED,
+  });
+  const decision = (id: string) =>
+    input.overrides[id] as OverrideDecision | undefined;
+  // Trains sent to IBL are out of service tonight and cannot act as reserve
+  const fit = input.ranked.filter(
+    (r) => !r.blocked && decision(r.id) !== "IBL"
+  );
+  // Forced inductions are fixed up front; forced standbys never enter the search
+  const forced = fit
+    .filter((r) => decision(r.id) === "Induct")
+    .map(toCandidate);
+  const free = fit.filter((r) => !decision(r.id));
+  // A cleaning-due train can only run if it was given a cleaning slot
+  const cands = free.filter((r) => !input.uncleaned.has(r.id)).map(toCandidate);
+  const unclean = free
+    .filter((r) => input.uncleaned.has(r.id))
+    .map(toCandidate);
+
+  const maxInduct = Math.max(
+    forced.length,
+    Math.min(input.serviceDemand, fit.length - input.minReserve)
+  );
+  const totalTargets = [...forced, ...cands, ...unclean].filter(
+    (c) => c.brandingTarget
+  ).length;
+
+  // suffix sums for the optimistic bound
+  const n = cands.length;
+  const targetsAfter = new Array<number>(n + 1).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    targetsAfter[i] = targetsAfter[i + 1] + (cands[i].brandingTarget ? 1 : 0);
+  }
+
+  let best: { chosen: boolean[]; value: number } = {
+    chosen: new Array(n).fill(false),
+    value: -Infinity,
+  };
+  const chosen = new Array<boolean>(n).fill(false);
+  const shunting = shuntTally(shuntTerms(input.ranked));
+  forced.forEach((c) => shunting.add(c.id));
+  let nodes = 0;
+  let exhausted = false;
+  const wMinute = input.minimiseShunting ? W_MINUTE : 0;
+
+  const fits = (c: Candidate) =>
+    shunting.minutes[c.depot] + shunting.delta(c.id) <=
+    input.shuntBudget[c.depot];
+
+  // Candidates are in descending score order, so the best remaining k are the next k
+  function bound(i: number, count: number, met: number, score: number) {
+    const room = Math.min(maxInduct - count, n - i);
+    let s = score;
+    for (let j = i; j < i + room; j++) s += cands[j].score;
+    // shunting minutes never fall as trains are added, so today's total is a bound
+    return (
+      (count + room) * W_COUNT +
+      (met + Math.min(room, targetsAfter[i])) * W_BRANDING -
+      shunting.total * wMinute +
+      s
+    );
+  }
+
+  function search(i: number, count: number, met: number, score: number) {
+    if (++nodes > nodeBudget) {
+      exhausted = true;
+      return;
+    }
+    if (onProgress && nodes % PROGRESS_EVERY === 0) onProgress(nodes);
+    const value =
+      count * W_COUNT + met * W_BRANDING - shunting.total * wMinute + score;
+    if (value > best.value) best = { chosen: [...chosen], value };
+    if (i === n || count === maxInduct) return;
+    if (bound(i, count, met, score) <= best.value) return;
+
+    const c = cands[i];
+    if (fits(c)) {
+      chosen[i] = true;
+      shunting.add(c.id);
+      search(
+        i + 1,
+        count + 1,
+        met + (c.brandingTarget ? 1 : 0),
+        score + c.score
+      );
+      shunting.remove(c.id);
+      chosen[i] = false;
+    }
+    if (!exhausted) search(i + 1, count, met, score);
+  }
+  search(
+    0,
+    forced.length,
+    forced.filter((c) => c.brandingTarget).length,
+    forced.reduce((sum, c) => sum + c.score, 0)
+  );
+
+  // Usage and diagnostics for the chosen plan
+  const picked = [...forced, ...cands.filter((_, i) => best.chosen[i])];
+  const final = shuntTally(shuntTerms(input.ranked));
+  picked.forEach((c) => final.add(c.id));
+  const usage = {
+    shunting: { ...final.minutes },
+    reserve: fit.length - picked.length,
+  };
+
+  const heldBack: Record<string, string> = {};
+  const worstPicked = Math.min(...picked.map((c) => c.score));
+  const wanted = (c: Candidate) => c.score > worstPicked || c.brandingTarget;
+  cands
+    .filter((c, i) => !best.chosen[i] && wanted(c))
+    .forEach((c) => {
+      if (
+        usage.shunting[c.depot] + final.delta(c.id) >
+        input.shuntBudget[c.depot]
+      ) {
+        heldBack[c.id] = `Shunting budget (${c.depot})`;
+      } else if (
+        picked.length >= maxInduct &&
+        maxInduct < input.serviceDemand
+      ) {
+        heldBack[c.id] = "Standby reserve";
+      }
+    });
+  unclean.forEach((c) => (heldBack[c.id] = "Missed cleaning slot"));
+  input.ranked
+    .filter((r) => decision(r.id) && decision(r.id) !== "Induct")
+    .forEach((r) => (heldBack[r.id] = `Override (${decision(r.id)})`));
+
+  const unmet: ConstraintViolation[] = [];
+  const ignored = input.ranked.filter(
+    (r) => r.blocked && decision(r.id) === "Induct"
+  );
+  if (ignored.length) {
+    unmet.push({
+      constraint: "override",
+      message: `Induct override ignored for ${ignored
+        .map((r) => `${r.id} (${blockLabel(r)})`)
+        .join(", ")}: hard-blocked.`,
+    });
+  }
+  const overBudget = (Object.keys(usage.shunting) as Depot[]).filter(
+    (d) => usage.shunting[d] > input.shuntBudget[d]
+  );
+  if (overBudget.length) {
+    unmet.push({
+      constraint: "override",
+      message: `Forced inductions exceed the shunting budget at ${overBudget.join(
+        ", "
+      )}.`,
+    });
+  }
+  if (picked.length < input.serviceDemand) {
+    const binding = [
+      fit.length < input.serviceDemand &&
+        `only ${fit.length} trainsets are fit`,
+      maxInduct < input.serviceDemand &&
+        fit.length >= input.serviceDemand &&
+        `${input.minReserve} must stay in reserve`,
+      unclean.length > 0 && `${unclean.length} missed a cleaning slot`,
+      Object.values(heldBack).some((r) => r.startsWith("Shunting")) &&
+        "shunting budget exhausted",
+    ].filter(Boolean);
+    unmet.push({
+      constraint: "demand",
+      message: `Service demand: ${picked.length} of ${
+        input.serviceDemand
+      } rakes${binding.length ? ` (${binding.join("; ")})` : ""}.`,
+    });
+  }
+  if (usage.reserve < input.minReserve) {
+    unmet.push({
+      constraint: "reserve",
+      message: `Standby reserve: ${usage.reserve} of ${input.minReserve} required.`,
+    });
+  }
+  const missedTargets = [
+    ...cands.filter((c, i) => c.brandingTarget && !best.chosen[i]),
+    ...unclean.filter((c) => c.brandingTarget),
+  ];
+  if (missedTargets.length) {
+    unmet.push({
+      constraint: "branding",
+      message: `Branding exposure: ${
+        totalTargets - missedTargets.length
+      } of ${totalTargets} urgent targets inducted (missing ${missedTargets
+        .map((c) => c.id)
+        .join(", ")}).`,
+    });
+  }
+  const pickedIds = new Set(picked.map((c) => c.id));
+  const decisions: Record<string, PlanDecision> = Object.fromEntries(
+    input.ranked.map((r) => [
+      r.id,
+      r.blocked
+        ? "Blocked"
+        : pickedIds.has(r.id)
+        ? "Induct"
+        : decision(r.id) === "IBL"
+        ? "IBL"
+        : "Standby",
+    ])
+  );
+  return {
+    inducted: fit.filter((r) => pickedIds.has(r.id)).map((r) => r.id),
+    decisions,
+    heldBack,
+    unmet,
+    usage,
+    nodes: Math.min(nodes, nodeBudget),
+    optimal: !exhausted,
+  };
+}
+
+// Running shunting minutes for the set being searched. A standby train in front
+// of a chosen one costs an aside move until it is chosen itself.
+function shuntTally(terms: Map<string, ShuntTerms>) {
+  const minutes: Record<Depot, number> = {
+    MAIN_DEPOT_A: 0,
+    MAIN_DEPOT_B: 0,
+    SATELLITE: 0,
+  };
+  const chosen = new Set<string>();
+  const behind = new Map<string, number>(); // chosen trains behind each train
+  const tally = {
+    minutes,
+    total: 0,
+    // Extra minutes if `id` joined the set
+    delta(id: string) {
+      const t = terms.get(id)!;
+      let d = t.release - (behind.get(id) ? t.aside : 0);
+      t.blockers.forEach((b) => {
+        if (!behind.get(b) && !chosen.has(b)) d += terms.get(b)!.aside;
+      });
+      return d;
+    },
+    add(id: string) {
+      const t = terms.get(id)!;
+      const d = tally.delta(id);
+      minutes[t.depot] += d;
+      tally.total += d;
+      chosen.add(id);
+      t.blockers.forEach((b) => behind.set(b, (behind.get(b) ?? 0) + 1));
+    },
+    remove(id: string) {
+      const t = terms.get(id)!;
+      t.blockers.forEach((b) => behind.set(b, behind.get(b)! - 1));
+      chosen.delete(id);
+      const d = tally.delta(id);
+      minutes[t.depot] -= d;
+      tally.total -= d;
+    },
+  };
+  return tally;
+}
@@ -0,0 +1,29 @@
+import {
+  optimiseInduction,
+  type InductionPlan,
+  type OptimiserInput,
+} from "./optimiser";
+
+// -------------------------------------------------------------
+// Runs a full optimiser search off the main thread. Posts progress
+// while it searches and the plan when done; the page cancels a run
+// by terminating the worker.
+// -------------------------------------------------------------
+
+export type OptimiserRequest = {
+  input: OptimiserInput;
+  nodeBudget: number;
+};
+
+export type OptimiserMessage =
+  | { type: "progress"; nodes: number }
+  | { type: "done"; plan: InductionPlan };
+
+self.onmessage = (e: MessageEvent<OptimiserRequest>) => {
+  const post = (m: OptimiserMessage) => self.postMessage(m);
+  const plan = optimiseInduction(e.data.input, {
+    nodeBudget: e.data.nodeBudget,
+    onProgress: (nodes) => post({ type: "progress", nodes }),
+  });
+  post({ type: "done", plan });
+};
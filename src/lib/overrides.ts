@@ -0,0 +1,82 @@
+import { getAll, put, remove } from "./db";
+import type {
+  AuditEntry,
+  Override,
+  OverrideDecision,
+  OverrideReason,
+} from "./types";
+
+// -------------------------------------------------------------
+// Manual overrides and audit log (IndexedDB "overrides", "audit")
+// -------------------------------------------------------------
+
+export const OVERRIDE_DECISIONS: OverrideDecision[] = [
+  "Induct",
+  "Standby",
+  "IBL",
+];
+
+export const OVERRIDE_REASONS: Record<OverrideReason, string> = {
+  SAFETY_HOLD: "Safety hold",
+  OPS_REQUEST: "Operations request",
+  BRANDING_COMMITMENT: "Branding commitment",
+  MAINTENANCE_WINDOW: "Maintenance window",
+  DATA_CORRECTION: "Data correction",
+  OTHER: "Other",
+};
+
+// Induction is planned overnight, so anything before noon still belongs to
+// the previous evening's plan. Returns that evening as YYYY-MM-DD (local).
+export function planningNight(now = new Date()) {
+  const d = new Date(now);
+  if (d.getHours() < 12) d.setDate(d.getDate() - 1);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+// YYYY-MM-DD night `days` later (or earlier, if negative)
+export function shiftNight(night: string, days: number) {
+  const d = new Date(`${night}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function describeOverride(o: Override) {
+  return `${o.decision}: ${OVERRIDE_REASONS[o.reason]}${
+    o.comment ? ` — ${o.comment}` : ""
+  } (${o.author})`;
+}
+
+export async function loadOverrides(): Promise<Override[]> {
+  return getAll<Override>("overrides");
+}
+
+export function saveOverride(o: Override) {
+  return put("overrides", o);
+}
+
+export function deleteOverride(night: string, trainId: string) {
+  return remove("overrides", [night, trainId]);
+}
+
+// Newest first
+export async function loadAudit(): Promise<AuditEntry[]> {
+  const entries = await getAll<AuditEntry>("audit");
+  return entries.sort((a, b) => b.at.localeCompare(a.at));
+}
+
+export function appendAudit(entry: AuditEntry) {
+  return put("audit", entry);
+}
+
+export function auditEntry(
+  fields: Omit<AuditEntry, "id" | "at">,
+  at = new Date().toISOString()
+): AuditEntry {
+  return {
+    id: `${at}-${Math.random().toString(36).slice(2, 8)}`,
+    at,
+    ...fields,
+  };
+}
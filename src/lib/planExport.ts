@@ -0,0 +1,184 @@
+import type { Alert } from "./alerts";
+import type { CleaningSchedule } from "./cleaning";
+import { toCsv } from "./csv";
+import type { ExitStep } from "./depot";
+import { weakestCertificate } from "./fitness";
+import { jobCardSummary } from "./jobCards";
+import { kmSinceService } from "./mileage";
+import { describeOverride } from "./overrides";
+import { planStatus } from "./plans";
+import { decisionChanges } from "./scenarios";
+import { describeBlocked } from "./scoring";
+import type { Override, PlanDecision, PlanVersion, RankedTrain } from "./types";
+
+// -------------------------------------------------------------
+// Plan exports for shift handover and downstream systems: CSV of
+// the ranked list, a JSON plan file and the printable sheet's data.
+// All built from the same ranked list and decisions as the table,
+// so sign-offs are only carried when that plan is the one signed.
+// -------------------------------------------------------------
+
+export const PLAN_FILE_SCHEMA = "kmrl-induction-plan";
+export const PLAN_FILE_VERSION = 1;
+
+export type PlanExport = {
+  night: string;
+  generatedAt: string; // ISO timestamp
+  serviceDemand: number;
+  ranked: RankedTrain[];
+  decisions: Record<string, PlanDecision>;
+  heldBack: Record<string, string>;
+  overrides: Override[]; // tonight's
+  cleaning: CleaningSchedule;
+  exits: ExitStep[]; // departure order of the inducted trains
+  alerts: Alert[]; // open alerts, most severe first
+  finalised: PlanVersion | undefined; // tonight's latest version, if any
+};
+
+export type ExportSignOff = {
+  version: PlanVersion | undefined; // tonight's latest finalised version
+  matches: boolean; // the exported plan makes that version's decisions
+  changed: string[]; // trains whose decision differs from that version
+};
+
+// Whether the finalised version's sign-offs apply to the exported plan
+export function exportSignOff(x: PlanExport): ExportSignOff {
+  const v = x.finalised;
+  const changed = v ? decisionChanges(v, x).map((c) => c.trainId) : [];
+  return { version: v, matches: !!v && !changed.length, changed };
+}
+
+export type ExportRow = {
+  rank: number;
+  trainId: string;
+  decision: PlanDecision;
+  score: number | null;
+  reason: string | null; // block, override or held-back reason
+  depot: RankedTrain["stabledAt"];
+  bay: string;
+  exitSeq: number | null;
+  cleaning: string | null; // "Bay 2 22:00 (Night)"
+  jobCardsOpen: number;
+  safetyCritical: number;
+  minFitnessDays: number;
+  mileageKm: number;
+  kmSinceService: number;
+};
+
+export function exportRows(x: PlanExport): ExportRow[] {
+  const override = new Map(x.overrides.map((o) => [o.trainId, o]));
+  const exitSeq = new Map(x.exits.map((e, i) => [e.trainId, i + 1]));
+  const slot = new Map(x.cleaning.assignments.map((a) => [a.trainId, a]));
+  return x.ranked.map((r) => {
+    const o = override.get(r.id);
+    const c = slot.get(r.id);
+    const jobs = jobCardSummary(r);
+    return {
+      rank: r.rank,
+      trainId: r.id,
+      decision: x.decisions[r.id],
+      score: r.blocked ? null : Number(r.score.toFixed(3)),
+      reason:
+        describeBlocked(r) ??
+        (o ? describeOverride(o) : x.heldBack[r.id] ?? null),
+      depot: r.stabledAt,
+      bay: r.bay,
+      exitSeq: exitSeq.get(r.id) ?? null,
+      cleaning: c ? `Bay ${c.bay} ${c.start} (${c.shift})` : null,
+      jobCardsOpen: jobs.open,
+      safetyCritical: jobs.safetyCritical,
+      minFitnessDays: weakestCertificate(r).daysLeft,
+      mileageKm: r.mileageKm,
+      kmSinceService: kmSinceService(r),
+    };
+  });
+}
+
+const CSV_COLUMNS: [keyof ExportRow, string][] = [
+  ["rank", "RANK"],
+  ["trainId", "TRAIN_ID"],
+  ["decision", "DECISION"],
+  ["score", "SCORE"],
+  ["reason", "REASON"],
+  ["depot", "DEPOT"],
+  ["bay", "BAY"],
+  ["exitSeq", "EXIT_SEQ"],
+  ["cleaning", "CLEANING_SLOT"],
+  ["jobCardsOpen", "JOB_CARDS_OPEN"],
+  ["safetyCritical", "SAFETY_CRITICAL_OPEN"],
+  ["minFitnessDays", "MIN_FITNESS_DAYS"],
+  ["mileageKm", "MILEAGE_KM"],
+  ["kmSinceService", "KM_SINCE_SERVICE"],
+];
+
+// Text starting with = + - @ is read as a formula by spreadsheets; reasons
+// carry free text from overrides, so such cells get a leading '
+function csvText(v: string) {
+  return /^[=+\-@]/.test(v) ? `'${v}` : v;
+}
+
+export function planCsv(x: PlanExport) {
+  return toCsv([
+    CSV_COLUMNS.map(([, header]) => header),
+    ...exportRows(x).map((row) =>
+      CSV_COLUMNS.map(([key]) => {
+        const v = row[key];
+        if (typeof v === "string") return csvText(v);
+        // -Infinity (invalid certificate date) has no CSV form
+        return typeof v === "number" && !Number.isFinite(v) ? null : v;
+      })
+    ),
+  ]);
+}
+
+export function planJson(x: PlanExport) {
+  const { version: v, matches, changed } = exportSignOff(x);
+  const file = {
+    schema: PLAN_FILE_SCHEMA,
+    schemaVersion: PLAN_FILE_VERSION,
+    night: x.night,
+    generatedAt: x.generatedAt,
+    // Set only when this plan is the finalised one
+    finalised:
+      v && matches
+        ? {
+            version: v.version,
+            status: planStatus(v),
+            createdAt: v.createdAt,
+            createdBy: v.createdBy,
+            signOffs: v.signOffs,
+          }
+        : null,
+    // Set when the plan has changed since it was finalised; not signed
+    differsFromVersion:
+      v && !matches ? { version: v.version, changedTrains: changed } : null,
+    serviceDemand: x.serviceDemand,
+    inducted: x.exits.map((e) => e.trainId),
+    trains: exportRows(x),
+    exitOrder: x.exits,
+    cleaning: x.cleaning.assignments,
+    overrides: x.overrides,
+    alerts: x.alerts.map(({ trainId, level, text }) => ({
+      trainId,
+      level,
+      text,
+    })),
+  };
+  // JSON has no infinities, so an invalid certificate date comes out as null
+  return JSON.stringify(file, null, 2);
+}
+
+export function exportFileName(night: string, ext: string) {
+  return `induction-plan-${night}.${ext}`;
+}
+
+// Save text as a file from the browser
+export function downloadText(fileName: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoked on the next task, once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url));
+}
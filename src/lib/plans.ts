@@ -0,0 +1,197 @@
+import { canSignAs } from "./auth";
+import { getAll, put } from "./db";
+import { SCORE_COMPONENTS } from "./scoring";
+import { decisionChanges } from "./scenarios";
+import type {
+  PlanRole,
+  PlanSignOff,
+  PlanVersion,
+  RankedTrain,
+  ScenarioInputs,
+  ScenarioMetrics,
+  Trainset,
+  User,
+  Weights,
+} from "./types";
+
+// -------------------------------------------------------------
+// Finalised plans: each "Finalise" freezes the induction set,
+// inputs and fleet snapshot into a new version for the night.
+// A version is in force once the planner and then the depot
+// controller have signed it; a revision needs both again.
+// -------------------------------------------------------------
+
+export const PLAN_ROLES: Record<PlanRole, string> = {
+  planner: "Planner",
+  controller: "Depot controller",
+};
+
+export type PlanStatus =
+  | "awaiting-planner"
+  | "awaiting-controller"
+  | "approved";
+
+export const PLAN_STATUS_LABELS: Record<PlanStatus, string> = {
+  "awaiting-planner": "Awaiting planner",
+  "awaiting-controller": "Awaiting depot controller",
+  approved: "Approved",
+};
+
+export type FreezeInput = {
+  night: string;
+  previous: PlanVersion | undefined; // latest version for the night, if any
+  trains: Trainset[];
+  ranked: RankedTrain[];
+  inducted: string[];
+  inputs: ScenarioInputs;
+  decisions: PlanVersion["decisions"];
+  metrics: ScenarioMetrics;
+  by: string;
+  revisionNote: string | null;
+  overrideReason: string | null;
+};
+
+export function freezePlan(input: FreezeInput): PlanVersion {
+  const version = (input.previous?.version ?? 0) + 1;
+  return structuredClone({
+    id: `${input.night}#${version}`,
+    night: input.night,
+    version,
+    createdAt: new Date().toISOString(),
+    createdBy: input.by,
+    revisionNote: input.revisionNote,
+    overrideReason: input.overrideReason,
+    inputs: input.inputs,
+    ranking: input.ranked.map((r) => ({
+      trainId: r.id,
+      rank: r.rank,
+      score: r.blocked ? null : r.score,
+    })),
+    inducted: input.inducted,
+    decisions: input.decisions,
+    metrics: input.metrics,
+    snapshot: input.trains,
+    signOffs: [],
+  });
+}
+
+export function planStatus(v: PlanVersion): PlanStatus {
+  const signed = new Set(v.signOffs.map((s) => s.role));
+  if (!signed.has("planner")) return "awaiting-planner";
+  if (!signed.has("controller")) return "awaiting-controller";
+  return "approved";
+}
+
+// Why `user` can't sign `v` as `role` right now, or null
+export function signOffProblem(
+  v: PlanVersion,
+  latest: PlanVersion | undefined,
+  role: PlanRole,
+  user: User
+) {
+  if (latest && latest.id !== v.id) {
+    return `Superseded by version ${latest.version}.`;
+  }
+  if (!canSignAs(user, role)) {
+    return `Only a ${PLAN_ROLES[role].toLowerCase()} can sign here.`;
+  }
+  const status = planStatus(v);
+  if (status === "approved") return "Already approved.";
+  if (role === "planner" && status !== "awaiting-planner") {
+    return "The planner has already signed.";
+  }
+  if (role === "controller") {
+    if (status === "awaiting-planner") return "The planner signs first.";
+    const planner = v.signOffs.find((s) => s.role === "planner");
+    // Sign-offs from before sign-in only have a name to go on
+    const same = planner?.userId
+      ? planner.userId === user.id
+      : planner?.by.trim().toLowerCase() === user.name.trim().toLowerCase();
+    if (same) {
+      return "The depot controller must be someone other than the planner.";
+    }
+  }
+  return null;
+}
+
+export function signPlan(
+  v: PlanVersion,
+  role: PlanRole,
+  user: User,
+  comment: string
+): PlanVersion {
+  const signOff: PlanSignOff = {
+    role,
+    by: user.name,
+    userId: user.id,
+    at: new Date().toISOString(),
+    comment: comment.trim(),
+  };
+  return { ...v, signOffs: [...v.signOffs, signOff] };
+}
+
+export type PlanChange = { label: string; from: string; to: string };
+
+export type PlanDiff = {
+  decisions: ReturnType<typeof decisionChanges>;
+  inputs: PlanChange[];
+  metrics: PlanChange[];
+};
+
+const INPUT_LABELS: Record<Exclude<keyof ScenarioInputs, "weights">, string> = {
+  serviceDemand: "Service demand",
+  cleaningBays: "Cleaning bays",
+  minReserve: "Min standby reserve",
+  respectBranding: "Respect branding",
+  minimiseShunting: "Minimise shunting",
+  serviceIntervalKm: "Service interval (km)",
+};
+
+const METRIC_LABELS: Record<keyof ScenarioMetrics, string> = {
+  inducted: "Rakes inducted",
+  shuntingCost: "Shunting (min)",
+  brandingSla: "Branding SLA (%)",
+  mileageSpreadKm: "Mileage spread (km)",
+};
+
+function changed<K extends string>(
+  labels: Record<K, string>,
+  before: Partial<Record<K, unknown>>,
+  after: Partial<Record<K, unknown>>
+): PlanChange[] {
+  return (Object.keys(labels) as K[])
+    .filter((k) => String(before[k]) !== String(after[k]))
+    .map((k) => ({
+      label: labels[k],
+      from: String(before[k] ?? "—"),
+      to: String(after[k] ?? "—"),
+    }));
+}
+
+// What a version changed relative to the one before it
+export function planDiff(prev: PlanVersion, next: PlanVersion): PlanDiff {
+  const weights = (Object.keys(SCORE_COMPONENTS) as (keyof Weights)[])
+    .filter((k) => prev.inputs.weights[k] !== next.inputs.weights[k])
+    .map((k) => ({
+      label: `${SCORE_COMPONENTS[k].label} weight`,
+      from: prev.inputs.weights[k].toFixed(2),
+      to: next.inputs.weights[k].toFixed(2),
+    }));
+  return {
+    decisions: decisionChanges(prev, next),
+    inputs: [...changed(INPUT_LABELS, prev.inputs, next.inputs), ...weights],
+    metrics: changed(METRIC_LABELS, prev.metrics, next.metrics),
+  };
+}
+
+// Newest night first, versions in order within a night
+export async function loadPlans(): Promise<PlanVersion[]> {
+  const all = await getAll<PlanVersion>("plans");
+  return all.sort(
+    (a, b) => b.night.localeCompare(a.night) || a.version - b.version
+  );
+}
+
+export function savePlan(v: PlanVersion) {
+  return put("plans", v);
+}
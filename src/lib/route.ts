@@ -0,0 +1,142 @@
+import type { FeatureCollection } from "geojson";
+
+// -------------------------------------------------------------
+// Line 1 alignment (Aluva – SN Junction) and timetable-based
+// train positions. Inducted trains shuttle end to end, evenly
+// spaced round the cycle; a position feed can replace this.
+// -------------------------------------------------------------
+
+export type Station = { name: string; lng: number; lat: number };
+
+// North to south
+export const STATIONS: Station[] = [
+  { name: "Aluva", lng: 76.35022, lat: 10.11617 },
+  { name: "Pulinchodu", lng: 76.3466, lat: 10.0951 },
+  { name: "Companypady", lng: 76.3428, lat: 10.0873 },
+  { name: "Ambattukavu", lng: 76.339, lat: 10.0793 },
+  { name: "Muttom", lng: 76.3334, lat: 10.0727 },
+  { name: "Kalamassery", lng: 76.322, lat: 10.0586 },
+  { name: "Cochin University", lng: 76.31847, lat: 10.05293 },
+  { name: "Pathadipalam", lng: 76.3143, lat: 10.0361 },
+  { name: "Edapally", lng: 76.30862, lat: 10.02719 },
+  { name: "Changampuzha Park", lng: 76.3023, lat: 10.0152 },
+  { name: "Palarivattom", lng: 76.31007, lat: 10.00101 },
+  { name: "JLN Stadium", lng: 76.29503, lat: 9.997 },
+  { name: "Kaloor", lng: 76.29169, lat: 9.99676 },
+  { name: "Town Hall", lng: 76.28906, lat: 9.99234 },
+  { name: "MG Road", lng: 76.28214, lat: 9.98398 },
+  { name: "Maharaja's College", lng: 76.285, lat: 9.9732 },
+  { name: "Ernakulam South", lng: 76.28897, lat: 9.96947 },
+  { name: "Kadavanthra", lng: 76.2982, lat: 9.9666 },
+  { name: "Elamkulam", lng: 76.3087, lat: 9.9672 },
+  { name: "Vyttila", lng: 76.31724, lat: 9.96952 },
+  { name: "Thaikoodam", lng: 76.3241, lat: 9.9608 },
+  { name: "Petta", lng: 76.3298, lat: 9.9528 },
+  { name: "Vadakkekotta", lng: 76.339, lat: 9.9525 },
+  { name: "SN Junction", lng: 76.34616, lat: 9.95649 },
+];
+
+const AVG_SPEED_KMH = 34; // including dwell
+const TURNAROUND_MIN = 5;
+
+function distanceKm(a: Station, b: Station) {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Cumulative km at each station from Aluva
+export const CHAINAGE = STATIONS.reduce<number[]>(
+  (acc, s, i) => [...acc, i ? acc[i - 1] + distanceKm(STATIONS[i - 1], s) : 0],
+  []
+);
+export const ROUTE_KM = CHAINAGE[CHAINAGE.length - 1];
+
+export function routeGeoJson(): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        properties: { name: "Line 1" },
+        geometry: {
+          type: "LineString",
+          coordinates: STATIONS.map((s) => [s.lng, s.lat]),
+        },
+      },
+    ],
+  };
+}
+
+export function stationsGeoJson(): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: STATIONS.map((s, i) => ({
+      type: "Feature",
+      properties: {
+        name: s.name,
+        terminal: i === 0 || i === STATIONS.length - 1,
+      },
+      geometry: { type: "Point", coordinates: [s.lng, s.lat] },
+    })),
+  };
+}
+
+export type TrainPosition = {
+  trainId: string;
+  lng: number;
+  lat: number;
+  km: number; // along the line from Aluva
+  towards: string; // terminal it is heading for
+  next: string; // next station
+};
+
+function pointAt(km: number) {
+  const after = CHAINAGE.findIndex((c) => c > km);
+  const i = after < 0 ? STATIONS.length - 2 : Math.max(0, after - 1);
+  const f = (km - CHAINAGE[i]) / (CHAINAGE[i + 1] - CHAINAGE[i]);
+  const a = STATIONS[i];
+  const b = STATIONS[i + 1];
+  return {
+    i,
+    lng: a.lng + (b.lng - a.lng) * f,
+    lat: a.lat + (b.lat - a.lat) * f,
+  };
+}
+
+// Where each train is at `atMs` on the shuttle timetable. Trains keep to rank
+// order round the cycle, so the same plan always draws the same way.
+export function timetablePositions(
+  trainIds: string[],
+  atMs: number
+): TrainPosition[] {
+  const runMin = (ROUTE_KM / AVG_SPEED_KMH) * 60;
+  const cycleMin = 2 * (runMin + TURNAROUND_MIN);
+  const nowMin = atMs / 60000;
+  return trainIds.map((trainId, k) => {
+    const t =
+      (((nowMin + (k / trainIds.length) * cycleMin) % cycleMin) + cycleMin) %
+      cycleMin;
+    const southbound = t < cycleMin / 2;
+    const leg = southbound ? t : t - cycleMin / 2;
+    // standing at the terminal for the turnaround
+    const progress = Math.min(1, leg / runMin);
+    const km = (southbound ? progress : 1 - progress) * ROUTE_KM;
+    const p = pointAt(km);
+    const last = STATIONS[STATIONS.length - 1];
+    return {
+      trainId,
+      lng: p.lng,
+      lat: p.lat,
+      km,
+      towards: southbound ? last.name : STATIONS[0].name,
+      next: southbound
+        ? STATIONS[Math.min(p.i + 1, STATIONS.length - 1)].name
+        : STATIONS[p.i].name,
+    };
+  });
+}
@@ -0,0 +1,72 @@
+import { brandingNeed } from "./branding";
+import { getAll, put, remove } from "./db";
+import { mileageStats } from "./mileage";
+import { BRANDING_TARGET_NEED, type InductionPlan } from "./optimiser";
+import { planShunting } from "./shunting";
+import type { RankedTrain, Scenario, ScenarioMetrics } from "./types";
+
+// -------------------------------------------------------------
+// What-if scenarios: named snapshots of planner inputs and the
+// plan they produced (IndexedDB "scenarios")
+// -------------------------------------------------------------
+
+// Typical distance a rake covers in one service day
+export const DAILY_SERVICE_KM = 480;
+
+export function planMetrics(
+  ranked: RankedTrain[],
+  plan: InductionPlan
+): ScenarioMetrics {
+  const inducted = new Set(plan.inducted);
+  const targets = ranked.filter(
+    (r) => !r.blocked && (brandingNeed(r) ?? 0) >= BRANDING_TARGET_NEED
+  );
+  const met = targets.filter((r) => inducted.has(r.id)).length;
+  return {
+    inducted: inducted.size,
+    shuntingCost: planShunting(ranked, plan.inducted).minutes,
+    brandingSla: targets.length
+      ? Math.round((met / targets.length) * 100)
+      : 100,
+    mileageSpreadKm: Math.round(
+      mileageStats(
+        ranked.map(
+          (r) => r.mileageKm + (inducted.has(r.id) ? DAILY_SERVICE_KM : 0)
+        )
+      ).sd
+    ),
+  };
+}
+
+// Trains whose decision differs from the baseline scenario (or plan version)
+export function decisionChanges(
+  base: Pick<Scenario, "decisions">,
+  other: Pick<Scenario, "decisions">
+) {
+  const ids = [
+    ...new Set([
+      ...Object.keys(base.decisions),
+      ...Object.keys(other.decisions),
+    ]),
+  ].sort();
+  return ids
+    .filter((id) => base.decisions[id] !== other.decisions[id])
+    .map((id) => ({
+      trainId: id,
+      from: base.decisions[id] ?? null,
+      to: other.decisions[id] ?? null,
+    }));
+}
+
+export async function loadScenarios(): Promise<Scenario[]> {
+  const stored = await getAll<Scenario>("scenarios");
+  return stored.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function saveScenario(s: Scenario) {
+  return put("scenarios", s);
+}
+
+export function deleteScenario(id: string) {
+  return remove("scenarios", id);
+}
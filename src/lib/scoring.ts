@@ -0,0 +1,152 @@
+import { brandingNeed } from "./branding";
+import { describeBlock, weakestCertificate } from "./fitness";
+import { describeJobBlock, jobScore, safetyBlockers } from "./jobCards";
+import { mileageScore, type MileageModel } from "./mileage";
+import type { RankedTrain, ScoreBreakdown, Trainset, Weights } from "./types";
+
+// -------------------------------------------------------------
+// Scoring: fitness and safety-critical job cards are hard constraints
+// (block if expired / open), plus soft scores
+// -------------------------------------------------------------
+
+// Sums to 1; other profiles live in weights.ts
+export const defaultWeights: Weights = {
+  fitness: 0.35,
+  jobs: 0.2,
+  mileage: 0.15,
+  branding: 0.1,
+  cleaning: 0.1,
+  stabling: 0.1,
+};
+
+export const SCORE_COMPONENTS: Record<
+  keyof Weights,
+  { label: string; color: string }
+> = {
+  fitness: { label: "Fitness", color: "bg-sky-500" },
+  jobs: { label: "Job-cards", color: "bg-amber-500" },
+  mileage: { label: "Mileage", color: "bg-violet-500" },
+  branding: { label: "Branding", color: "bg-pink-500" },
+  cleaning: { label: "Cleaning", color: "bg-emerald-500" },
+  stabling: { label: "Stabling", color: "bg-slate-500" },
+};
+
+// mileage: fleet statistics and service interval the train is balanced against.
+// cleanAtDawn: false only for cleaning-due trains that miss tonight's cleaning slots
+export function scoreTrain(
+  t: Trainset,
+  weights: Weights,
+  mileage: MileageModel,
+  cleanAtDawn = !t.cleaningDue
+): ScoreBreakdown {
+  const minFitnessDays = weakestCertificate(t).daysLeft;
+
+  if (
+    !Number.isFinite(minFitnessDays) ||
+    minFitnessDays <= 0 ||
+    safetyBlockers(t).length
+  ) {
+    // hard block if any fitness expired or date is invalid, or safety work is open
+    return { total: -Infinity, components: [] };
+  }
+
+  const raw: Record<keyof Weights, number> = {
+    fitness: Math.max(0, Math.min(1, minFitnessDays / 10)), // fitnessScore 0..1
+    jobs: jobScore(t), // jobPenalty: 1 with no open work, 0 at JOB_LOAD_LIMIT
+    mileage: mileageScore(t, mileage), // mileageBalance: behind the fleet, km to spare
+    branding: brandingNeed(t) ?? 0.3, // brandingScore: neutral if no active campaign
+    cleaning: cleanAtDawn ? 1 : 0.4, // cleaningPenalty
+    stabling:
+      t.stabledAt === "MAIN_DEPOT_A"
+        ? 1
+        : t.stabledAt === "MAIN_DEPOT_B"
+        ? 0.85
+        : 0.7, // stablingBonus: geometry/shunting
+  };
+
+  const components = (Object.keys(raw) as (keyof Weights)[]).map((key) => ({
+    key,
+    raw: raw[key],
+    weight: weights[key],
+    contribution: raw[key] * weights[key],
+  }));
+  return {
+    total: components.reduce((sum, c) => sum + c.contribution, 0),
+    components,
+  };
+}
+
+// Score and rank a fleet; blocked trains (fitness expired, safety work open)
+// always go to the bottom.
+// cleanAtDawn says whether each train will be clean for service.
+export function rankTrains(
+  trains: Trainset[],
+  weights: Weights,
+  mileage: MileageModel,
+  cleanAtDawn: (t: Trainset) => boolean
+): RankedTrain[] {
+  const scored = trains.map((t) => {
+    const breakdown = scoreTrain(t, weights, mileage, cleanAtDawn(t));
+    const s = breakdown.total;
+    const blocked = !Number.isFinite(s) || s === -Infinity;
+    const weakest = weakestCertificate(t);
+    return {
+      ...t,
+      score: s,
+      breakdown,
+      blocked,
+      blockedBy: blocked && !(weakest.daysLeft > 0) ? weakest : null,
+      blockedByJobs: blocked ? safetyBlockers(t) : [],
+      rank: -1,
+      displayScore: blocked
+        ? "BLOCKED"
+        : typeof s === "number"
+        ? s.toFixed(3)
+        : "N/A",
+    } as RankedTrain;
+  });
+
+  scored.sort((a, b) => {
+    // blocked last
+    if (a.blocked !== b.blocked) return a.blocked ? 1 : -1;
+    // both non-blocked: higher score first
+    return (b.score as number) - (a.score as number);
+  });
+
+  return scored.map((r, idx) => ({ ...r, rank: idx + 1 }));
+}
+
+// What keeps a blocked train out of service, short and in full
+export function blockLabel(r: RankedTrain) {
+  return r.blockedBy ? "fitness" : "safety job card";
+}
+
+export function describeBlocked(r: RankedTrain) {
+  if (r.blockedBy) return describeBlock(r.blockedBy);
+  return r.blockedByJobs.length ? describeJobBlock(r.blockedByJobs) : null;
+}
+
+// One sentence on why `a` sits where it does relative to `b`, naming the
+// component with the largest weighted difference.
+export function explainAgainst(a: RankedTrain, b: RankedTrain) {
+  const above = a.rank < b.rank;
+  if (b.blocked && !a.blocked) {
+    return `Ranked above ${b.id}, which is blocked on ${blockLabel(b)}.`;
+  }
+  if (a.blocked) {
+    return `Blocked on ${blockLabel(a)}, so ranked below every fit trainset.`;
+  }
+  const diffs = a.breakdown.components.map((c, i) => ({
+    key: c.key,
+    delta: c.contribution - b.breakdown.components[i].contribution,
+  }));
+  const decisive = diffs.reduce((best, d) =>
+    (above ? d.delta > best.delta : d.delta < best.delta) ? d : best
+  );
+  const gap = Math.abs(a.score - b.score).toFixed(3);
+  const sign = decisive.delta >= 0 ? "+" : "−";
+  const delta = `${sign}${Math.abs(decisive.delta).toFixed(3)}`;
+  const label = SCORE_COMPONENTS[decisive.key].label.toLowerCase();
+  const side = above ? "above" : "below";
+  return `Ranked ${side} ${b.id} by ${gap}, mostly on ${label} (${delta}).`;
+}
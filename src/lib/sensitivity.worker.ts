@@ -0,0 +1,21 @@
+import {
+  weightSensitivity,
+  type SensitivityInput,
+  type SensitivityRow,
+} from "./weights";
+
+// -------------------------------------------------------------
+// Runs the weights sensitivity table off the main thread. The page
+// starts a new worker for each input and terminates the old one,
+// so only the latest sliders are worked through.
+// -------------------------------------------------------------
+
+export type SensitivityMessage = { type: "done"; rows: SensitivityRow[] };
+
+self.onmessage = (e: MessageEvent<SensitivityInput>) => {
+  const message: SensitivityMessage = {
+    type: "done",
+    rows: weightSensitivity(e.data),
+  };
+  self.postMessage(message);
+};
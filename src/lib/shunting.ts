@@ -0,0 +1,240 @@
+import { bayPosition, blockersOf, DEPOT_LAYOUT, exitOrder } from "./depot";
+import type { Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Shunting move planner on a depot track graph. Every stabling
+// line joins the depot throat, which leads to a short holding
+// siding and out to the mainline. Releasing the inducted trains
+// takes one move per train plus one per standby train parked in
+// front of it, which is the least any sequence can do.
+// -------------------------------------------------------------
+
+type Depot = Trainset["stabledAt"];
+
+// Crew time per move (walk to the cab, brake test) and track running times
+const SETUP_MIN = 4;
+const BAY_MIN = 2; // one bay length along a stabling line
+const SWITCH_MIN = 3; // line <-> throat
+const HOLDING_MIN = 2; // throat <-> holding siding
+export const EXIT_MIN: Record<Depot, number> = {
+  MAIN_DEPOT_A: 5,
+  MAIN_DEPOT_B: 8,
+  SATELLITE: 15,
+};
+const HOLDING_CAPACITY = 2;
+
+// Shunting starts at 03:00; the first departure leaves at 05:30
+export const SHUNT_START_MIN = 3 * 60;
+export const SHUNT_WINDOW_MIN = 150;
+
+type Graph = Map<string, { to: string; minutes: number }[]>;
+
+const THROAT = "throat";
+const HOLDING = "holding";
+export const MAINLINE = "mainline";
+
+function slotNode(line: number, slot: number) {
+  return `L${line + 1}.${slot + 1}`;
+}
+
+function depotGraph(depot: Depot): Graph {
+  const graph: Graph = new Map();
+  const link = (a: string, b: string, minutes: number) => {
+    graph.set(a, [...(graph.get(a) ?? []), { to: b, minutes }]);
+    graph.set(b, [...(graph.get(b) ?? []), { to: a, minutes }]);
+  };
+  const { lines, depth } = DEPOT_LAYOUT[depot];
+  for (let line = 0; line < lines; line++) {
+    link(slotNode(line, 0), THROAT, SWITCH_MIN);
+    for (let slot = 1; slot < depth; slot++) {
+      link(slotNode(line, slot - 1), slotNode(line, slot), BAY_MIN);
+    }
+  }
+  link(THROAT, HOLDING, HOLDING_MIN);
+  link(THROAT, MAINLINE, EXIT_MIN[depot]);
+  return graph;
+}
+
+const GRAPHS = Object.fromEntries(
+  (Object.keys(DEPOT_LAYOUT) as Depot[]).map((d) => [d, depotGraph(d)])
+) as Record<Depot, Graph>;
+
+// Shortest running time between two nodes (Dijkstra; the graphs are tiny)
+function travelMinutes(depot: Depot, from: string, to: string) {
+  const graph = GRAPHS[depot];
+  const dist = new Map([[from, 0]]);
+  const open = new Set([from]);
+  while (open.size) {
+    const node = [...open].reduce((a, b) =>
+      dist.get(a)! <= dist.get(b)! ? a : b
+    );
+    open.delete(node);
+    if (node === to) return dist.get(node)!;
+    (graph.get(node) ?? []).forEach(({ to: next, minutes }) => {
+      const d = dist.get(node)! + minutes;
+      if (d < (dist.get(next) ?? Infinity)) {
+        dist.set(next, d);
+        open.add(next);
+      }
+    });
+  }
+  return Infinity;
+}
+
+// Trains without a recognisable bay are taken to be waiting at the throat
+function nodeOf(t: Trainset) {
+  const pos = bayPosition(t.stabledAt, t.bay);
+  return pos ? slotNode(pos.line, pos.slot) : THROAT;
+}
+
+function moveMinutes(t: Trainset, to: string) {
+  return SETUP_MIN + travelMinutes(t.stabledAt, nodeOf(t), to);
+}
+
+// Per-train costs the optimiser prices incrementally. Moving a train aside is
+// priced as a run to the holding siding, which is never dearer than releasing it.
+export type ShuntTerms = {
+  depot: Depot;
+  release: number;
+  aside: number;
+  blockers: string[]; // trains between this one and the exit
+};
+
+export function shuntTerms(trains: Trainset[]): Map<string, ShuntTerms> {
+  const blockers = blockersOf(trains);
+  return new Map(
+    trains.map((t) => [
+      t.id,
+      {
+        depot: t.stabledAt,
+        release: moveMinutes(t, MAINLINE),
+        aside: moveMinutes(t, HOLDING),
+        blockers: blockers.get(t.id) ?? [],
+      },
+    ])
+  );
+}
+
+export type ShuntMove = {
+  trainId: string;
+  depot: Depot;
+  kind: "aside" | "release";
+  from: string; // bay label, or "" if unknown
+  to: string; // bay label, "holding" or "mainline"
+  startMin: number; // minutes after midnight
+  minutes: number;
+};
+
+export type ShuntPlan = {
+  moves: ShuntMove[]; // in crew order per depot, depots interleaved by start time
+  minutes: number; // total crew time
+  byDepot: Record<Depot, { moves: number; minutes: number }>;
+  finishMin: number; // last move done, minutes after midnight
+  late: Depot[]; // depots whose crew can't finish before the first departure
+};
+
+export function clockTime(min: number) {
+  const m = Math.round(min) % (24 * 60);
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(
+    m % 60
+  ).padStart(2, "0")}`;
+}
+
+// Sequence of moves that releases `inducted` (rank order) from the depots. Each
+// depot has one shunting crew working through its moves in turn from 03:00.
+export function planShunting(
+  trains: Trainset[],
+  inducted: string[]
+): ShuntPlan {
+  const byId = new Map(trains.map((t) => [t.id, t]));
+  const pending = new Set(inducted);
+  const held: Record<Depot, number> = {
+    MAIN_DEPOT_A: 0,
+    MAIN_DEPOT_B: 0,
+    SATELLITE: 0,
+  };
+  const clock: Record<Depot, number> = {
+    MAIN_DEPOT_A: SHUNT_START_MIN,
+    MAIN_DEPOT_B: SHUNT_START_MIN,
+    SATELLITE: SHUNT_START_MIN,
+  };
+  const byDepot = {
+    MAIN_DEPOT_A: { moves: 0, minutes: 0 },
+    MAIN_DEPOT_B: { moves: 0, minutes: 0 },
+    SATELLITE: { moves: 0, minutes: 0 },
+  };
+  // bays taken, so trains moved aside can be parked on a free line
+  const taken = new Set(trains.map((t) => `${t.stabledAt}/${nodeOf(t)}`));
+  const moves: ShuntMove[] = [];
+
+  function record(
+    t: Trainset,
+    kind: ShuntMove["kind"],
+    to: string,
+    label: string
+  ) {
+    const minutes = moveMinutes(t, to);
+    const d = t.stabledAt;
+    moves.push({
+      trainId: t.id,
+      depot: d,
+      kind,
+      from: t.bay,
+      to: label,
+      startMin: clock[d],
+      minutes,
+    });
+    clock[d] += minutes;
+    byDepot[d].moves++;
+    byDepot[d].minutes += minutes;
+    taken.delete(`${d}/${nodeOf(t)}`);
+  }
+
+  // Holding siding first, then the deepest free bay on a line with nothing
+  // waiting to leave (so the parked train blocks no one)
+  function parkingFor(t: Trainset): { node: string; label: string } {
+    const d = t.stabledAt;
+    if (held[d] < HOLDING_CAPACITY) {
+      held[d]++;
+      return { node: HOLDING, label: HOLDING };
+    }
+    const { lines, depth } = DEPOT_LAYOUT[d];
+    for (let line = 0; line < lines; line++) {
+      const waiting = trains.some((o) => {
+        const pos = bayPosition(d, o.bay);
+        return o.stabledAt === d && pending.has(o.id) && pos?.line === line;
+      });
+      if (waiting) continue;
+      let slot = -1;
+      while (slot + 1 < depth && !taken.has(`${d}/${slotNode(line, slot + 1)}`))
+        slot++;
+      if (slot >= 0) {
+        const node = slotNode(line, slot);
+        taken.add(`${d}/${node}`);
+        return { node, label: `B${line * depth + slot + 1}` };
+      }
+    }
+    // nowhere free: overfill the holding siding
+    held[d]++;
+    return { node: HOLDING, label: HOLDING };
+  }
+
+  exitOrder(trains, inducted).forEach((step) => {
+    step.moveAside.forEach((id) => {
+      const b = byId.get(id)!;
+      const spot = parkingFor(b);
+      record(b, "aside", spot.node, spot.label);
+    });
+    pending.delete(step.trainId);
+    record(byId.get(step.trainId)!, "release", MAINLINE, MAINLINE);
+  });
+
+  const depots = Object.keys(byDepot) as Depot[];
+  return {
+    moves: moves.sort((a, b) => a.startMin - b.startMin),
+    minutes: depots.reduce((sum, d) => sum + byDepot[d].minutes, 0),
+    byDepot,
+    finishMin: Math.max(SHUNT_START_MIN, ...depots.map((d) => clock[d])),
+    late: depots.filter((d) => byDepot[d].minutes > SHUNT_WINDOW_MIN),
+  };
+}
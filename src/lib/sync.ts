@@ -0,0 +1,120 @@
+import { getAll, put } from "./db";
+import type { SyncStatus, Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Sync adapter framework behind the Live Streams cards. An adapter
+// pulls a batch from its source, counts it and maps it onto the
+// fleet; the runner adds retries and records status (IndexedDB "syncStatus").
+// -------------------------------------------------------------
+
+export type SyncAdapter<B = unknown> = {
+  id: string;
+  label: string;
+  source: string; // where the data comes from, shown on the card
+  configured: boolean; // false when no source is set; such adapters never sync
+  fetch: (trains: Trainset[], signal: AbortSignal) => Promise<B>;
+  count: (batch: B) => number;
+  issues: (batch: B) => number; // rows left out of the batch with errors
+  apply: (trains: Trainset[], batch: B) => Trainset[];
+  // Resolves to null when the source is reachable, else a reason
+  health: (signal: AbortSignal) => Promise<string | null>;
+};
+
+export const SYNC_RETRIES = 3;
+const BACKOFF_MS = 500;
+
+export function initialSyncStatus(adapterId: string): SyncStatus {
+  return {
+    adapterId,
+    state: "idle",
+    lastAttemptAt: null,
+    lastSyncAt: null,
+    records: 0,
+    issues: 0,
+    retries: 0,
+    error: null,
+    healthy: null,
+    healthMessage: null,
+  };
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Fetch with up to SYNC_RETRIES retries (exponential backoff). The batch is
+// returned unmapped: the fleet may change while the fetch is in flight, so
+// callers map it onto the fleet as it is when they commit (`syncChanges`).
+export async function runSync<B>(
+  adapter: SyncAdapter<B>,
+  trains: Trainset[],
+  signal: AbortSignal,
+  onRetry?: (retries: number, error: string) => void
+): Promise<{ batch: B; records: number; issues: number; retries: number }> {
+  let retries = 0;
+  for (;;) {
+    try {
+      const batch = await adapter.fetch(trains, signal);
+      return {
+        batch,
+        records: adapter.count(batch),
+        issues: adapter.issues(batch),
+        retries,
+      };
+    } catch (e) {
+      if (signal.aborted || retries >= SYNC_RETRIES) throw e;
+      retries++;
+      onRetry?.(retries, (e as Error).message);
+      await wait(BACKOFF_MS * 2 ** (retries - 1), signal);
+    }
+  }
+}
+
+// Maps a fetched batch onto `trains`; returns only the trainsets it changed
+export function syncChanges<B>(
+  adapter: SyncAdapter<B>,
+  trains: Trainset[],
+  batch: B
+): Trainset[] {
+  const before = new Map(trains.map((t) => [t.id, t]));
+  return adapter.apply(trains, batch).filter((t) => before.get(t.id) !== t);
+}
+
+// Shared transport for adapters that read a file over HTTP (a remote endpoint
+// or a static file under /public for offline use)
+export async function fetchFromUrl(
+  url: string,
+  signal: AbortSignal,
+  as: "text" | "blob" = "text"
+): Promise<string | Blob> {
+  const res = await fetch(url, { signal, cache: "no-store" });
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return as === "blob" ? res.blob() : res.text();
+}
+
+export async function probeUrl(url: string, signal: AbortSignal) {
+  try {
+    const res = await fetch(url, { method: "HEAD", signal, cache: "no-store" });
+    return res.ok ? null : `HTTP ${res.status}`;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+export async function loadSyncStatus(): Promise<SyncStatus[]> {
+  return getAll<SyncStatus>("syncStatus");
+}
+
+export function saveSyncStatus(status: SyncStatus) {
+  return put("syncStatus", status);
+}
@@ -0,0 +1,297 @@
+// -------------------------------------------------------------
+// Shared domain types for the induction planner
+// -------------------------------------------------------------
+
+export type JobCategory =
+  | "BRAKES"
+  | "BOGIE"
+  | "TRACTION"
+  | "DOORS"
+  | "SIGNALLING"
+  | "HVAC"
+  | "PIS"
+  | "INTERIOR"
+  | "OTHER";
+
+// A job card as exported from Maximo
+export type WorkOrder = {
+  woId: string; // Maximo WO_ID
+  trainId: string;
+  status: string; // Maximo status code, e.g. WAPPR, APPR, INPRG
+  priority: number; // 1 (highest) .. 5
+  description: string;
+  reportedAt: string | null; // ISO date, if present in the export
+  category: JobCategory;
+  safetyCritical: boolean; // open card blocks induction
+  estimatedHours: number | null;
+  targetCloseAt: string | null; // ISO date the work is due to be closed
+};
+
+export type FitnessDepartment = "ROLLING_STOCK" | "SIGNALLING" | "TELECOM";
+
+export type FitnessCertificate = {
+  certificateId: string;
+  trainId: string;
+  department: FitnessDepartment;
+  issuedOn: string; // ISO date
+  validTill: string; // ISO date
+  certifier: string;
+  // provenance
+  sourceFile: string;
+  importedAt: string; // ISO timestamp
+};
+
+export type BrandingCampaign = {
+  campaignId: string;
+  advertiser: string;
+  name: string;
+  trainId: string;
+  start: string; // ISO date, window opens
+  end: string; // ISO date, window closes
+  targetHours: number; // contracted exposure hours over the window
+  deliveredHours: number; // achieved so far
+};
+
+export type Trainset = {
+  id: string; // e.g., KMRL-TS-01
+  carCount: number; // 4
+  mileageKm: number; // cumulative
+  lastServiceKm: number;
+  fitness: {
+    rollingStockValidTill: string; // ISO date
+    signallingValidTill: string;
+    telecomValidTill: string;
+  };
+  certificates?: Partial<Record<FitnessDepartment, FitnessCertificate>>; // backing records for `fitness`
+  jobCardsOpen: number; // from Maximo
+  workOrders?: WorkOrder[]; // open WOs from the last Maximo import
+  branding: {
+    campaigns: BrandingCampaign[]; // from the advertiser sheet
+  };
+  cleaningDue: boolean;
+  stabledAt: "MAIN_DEPOT_A" | "MAIN_DEPOT_B" | "SATELLITE";
+  bay: string; // geometric position label
+  status: "Ready" | "Standby" | "IBL";
+  retiredAt: string | null; // ISO timestamp once withdrawn from the fleet
+};
+
+export type Weights = {
+  fitness: number;
+  jobs: number;
+  mileage: number;
+  branding: number;
+  cleaning: number;
+  stabling: number;
+};
+
+// Named set of slider weights (IndexedDB "weightProfiles" for saved ones)
+export type WeightProfile = {
+  id: string;
+  name: string;
+  weights: Weights;
+  createdAt: string; // ISO timestamp
+  builtIn?: boolean; // shipped with the app; can't be deleted
+};
+
+export type ScoreComponent = {
+  key: keyof Weights;
+  raw: number; // 0..1 before weighting
+  weight: number;
+  contribution: number; // raw * weight
+};
+
+export type ScoreBreakdown = {
+  total: number; // -Infinity when blocked
+  components: ScoreComponent[]; // empty when blocked
+};
+
+export type FitnessBlock = {
+  department: FitnessDepartment;
+  daysLeft: number;
+  certificate: FitnessCertificate | null; // null when the date has no imported record
+};
+
+export type RankedTrain = Trainset & {
+  rank: number;
+  score: number; // can be -Infinity for blocked
+  breakdown: ScoreBreakdown;
+  blocked: boolean;
+  blockedBy: FitnessBlock | null; // expired certificate, when that is the block
+  blockedByJobs: WorkOrder[]; // open safety-critical job cards
+  displayScore: string;
+};
+
+export type ImportIssue = {
+  row: number; // 1-based line (CSV) or record index (JSON)
+  level: "error" | "warning";
+  message: string;
+};
+
+export type OverrideDecision = "Induct" | "Standby" | "IBL";
+
+export type OverrideReason =
+  | "SAFETY_HOLD"
+  | "OPS_REQUEST"
+  | "BRANDING_COMMITMENT"
+  | "MAINTENANCE_WINDOW"
+  | "DATA_CORRECTION"
+  | "OTHER";
+
+export type Override = {
+  night: string; // planning night, YYYY-MM-DD of the evening
+  trainId: string;
+  decision: OverrideDecision;
+  reason: OverrideReason;
+  comment: string;
+  author: string;
+  createdAt: string; // ISO timestamp
+};
+
+export type AuditEntry = {
+  id: string;
+  night: string;
+  trainId: string | null; // null for plan-wide entries such as notes
+  action:
+    | "override.set"
+    | "override.cleared"
+    | "note"
+    | "plan.finalised"
+    | "plan.signed"
+    | "finalise.override";
+  detail: string;
+  author: string; // display name
+  userId?: string; // signed-in user; absent on entries from before sign-in
+  role?: UserRole;
+  at: string; // ISO timestamp
+};
+
+// Final per-train outcome of a plan, including hard blocks and overrides
+export type PlanDecision = "Induct" | "Standby" | "IBL" | "Blocked";
+
+// The planner inputs a what-if scenario snapshots
+export type ScenarioInputs = {
+  weights: Weights;
+  serviceDemand: number;
+  cleaningBays: number;
+  minReserve: number;
+  respectBranding: boolean;
+  minimiseShunting?: boolean; // absent in scenarios saved before it existed
+  serviceIntervalKm?: number; // likewise
+};
+
+export type ScenarioMetrics = {
+  inducted: number;
+  shuntingCost: number; // crew minutes
+  brandingSla: number; // % of urgent branding targets inducted
+  mileageSpreadKm: number; // std. deviation of fleet mileage after tonight's service
+};
+
+export type Scenario = {
+  id: string;
+  name: string;
+  night: string;
+  createdAt: string;
+  inputs: ScenarioInputs;
+  decisions: Record<string, PlanDecision>;
+  metrics: ScenarioMetrics;
+};
+
+// One planning night in the KPI history (IndexedDB "kpis", keyed by night)
+export type NightKpi = {
+  night: string; // YYYY-MM-DD of the evening the plan was made
+  serviceDemand: number | null;
+  plannedInducted: number | null;
+  actualInducted: number | null;
+  availability: number | null; // % of the fleet fit for service
+  punctuality: number | null; // % of trips on time, from actual service data
+  shuntingCost: number | null; // shunting crew minutes
+  brandingCompliance: number | null; // % of active campaigns on pace
+  finalisedAt: string | null;
+  actualsImportedAt: string | null;
+};
+
+export type AlertLevel = "high" | "med" | "low";
+
+export type AlertComparator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+// User-defined alert rule (IndexedDB "alertRules")
+export type AlertRule = {
+  id: string;
+  field: string; // key of ALERT_FIELDS in lib/alerts
+  comparator: AlertComparator;
+  threshold: number;
+  level: AlertLevel;
+  message: string; // template: {train}, {value}, {threshold}
+  enabled: boolean;
+};
+
+// Acknowledge / snooze state of one alert (IndexedDB "alertStates")
+export type AlertState = {
+  key: string; // `${ruleId}:${trainId}`
+  status: "acknowledged" | "snoozed";
+  until: string | null; // ISO timestamp a snooze expires
+  by: string;
+  at: string;
+};
+
+// Last known state of one sync adapter (IndexedDB "syncStatus")
+export type SyncStatus = {
+  adapterId: string;
+  state: "idle" | "syncing" | "ok" | "error";
+  lastAttemptAt: string | null;
+  lastSyncAt: string | null; // last successful sync
+  records: number; // records applied by the last successful sync
+  issues: number; // rows the last successful sync skipped with errors
+  retries: number; // retries used by the last attempt
+  error: string | null;
+  healthy: boolean | null; // null until the first health check
+  healthMessage: string | null;
+};
+
+// Planned maintenance: the train is out of service (IBL) for `nights` nights
+export type MaintenanceWindow = {
+  id: string;
+  trainId: string;
+  startNight: string; // YYYY-MM-DD
+  nights: number;
+  note: string;
+  createdAt: string; // ISO timestamp
+};
+
+export type PlanRole = "planner" | "controller";
+
+export type PlanSignOff = {
+  role: PlanRole;
+  by: string;
+  userId?: string; // absent on sign-offs from before sign-in
+  at: string; // ISO timestamp
+  comment: string;
+};
+
+// A finalised plan (IndexedDB "plans"). Everything but the sign-offs is frozen
+// when the version is written; a revision is a new version for the same night.
+export type PlanVersion = {
+  id: string; // `${night}#${version}`
+  night: string;
+  version: number; // 1 for the first plan of the night
+  createdAt: string; // ISO timestamp
+  createdBy: string;
+  revisionNote: string | null; // why it replaced the previous version
+  overrideReason: string | null; // set when red checks were finalised anyway
+  inputs: ScenarioInputs;
+  ranking: { trainId: string; rank: number; score: number | null }[]; // null when blocked
+  inducted: string[];
+  decisions: Record<string, PlanDecision>;
+  metrics: ScenarioMetrics;
+  snapshot: Trainset[]; // fleet data the plan was made from
+  signOffs: PlanSignOff[]; // planner first, then depot controller
+};
+
+export type UserRole = "viewer" | "planner" | "controller";
+
+// The signed-in user as reported by the identity provider
+export type User = {
+  id: string; // stable id from the provider, used for four-eyes checks
+  name: string;
+  role: UserRole;
+};
@@ -0,0 +1,222 @@
+import { FITNESS_DEPARTMENTS, withCertificates } from "./fitness";
+import type { FitnessCertificate, FitnessDepartment, Trainset } from "./types";
+
+// -------------------------------------------------------------
+// Unified Namespace (UNS) live feed over WebSocket. JSON frames:
+//   client -> broker  { type: "subscribe", topics: [...] }
+//   broker -> client  { type: "publish", topic, payload, ts }
+// Topics: kmrl/trainset/<id>/fitness/<DEPARTMENT>
+//         kmrl/trainset/<id>/telemetry/odometer
+// VITE_UNS_URL=mock://uns runs an in-browser broker that invents
+// certificates and odometer readings. Its messages are shown on the
+// card but never applied to the fleet. Unset means no live feed.
+// -------------------------------------------------------------
+
+export type UnsFeed =
+  | "fitness/ROLLING_STOCK"
+  | "fitness/SIGNALLING"
+  | "fitness/TELECOM"
+  | "telemetry/odometer";
+
+export const UNS_FEEDS: Record<
+  UnsFeed,
+  { label: string; staleAfterMs: number }
+> = {
+  "fitness/ROLLING_STOCK": {
+    label: "Rolling-Stock",
+    staleAfterMs: 5 * 60 * 1000,
+  },
+  "fitness/SIGNALLING": { label: "Signalling", staleAfterMs: 5 * 60 * 1000 },
+  "fitness/TELECOM": { label: "Telecom", staleAfterMs: 5 * 60 * 1000 },
+  "telemetry/odometer": { label: "Odometer", staleAfterMs: 60 * 1000 },
+};
+
+export const UNS_SUBSCRIPTIONS = [
+  "kmrl/trainset/+/fitness/+",
+  "kmrl/trainset/+/telemetry/odometer",
+];
+
+// Broker URL from the environment, or null when the feed is not configured
+export function unsUrl(): string | null {
+  return import.meta.env.VITE_UNS_URL || null;
+}
+
+export function isMockUns(url: string) {
+  return url.startsWith("mock://");
+}
+
+export type UnsMessage = { topic: string; payload: unknown; ts: string };
+
+export type UnsStatus =
+  | "unconfigured"
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+export function parseUnsTopic(topic: string) {
+  const m =
+    /^kmrl\/trainset\/([^/]+)\/(fitness\/[A-Z_]+|telemetry\/odometer)$/.exec(
+      topic
+    );
+  if (!m || !(m[2] in UNS_FEEDS)) return null;
+  return { trainId: m[1], feed: m[2] as UnsFeed };
+}
+
+function isIsoDate(v: unknown): v is string {
+  return typeof v === "string" && !Number.isNaN(Date.parse(v));
+}
+
+function applyOne(t: Trainset, feed: UnsFeed, msg: UnsMessage): Trainset {
+  const p = (msg.payload ?? {}) as Record<string, unknown>;
+  if (feed === "telemetry/odometer") {
+    const km = Number(p.km);
+    // odometers never run backwards; ignore out-of-order readings
+    return Number.isFinite(km) && km > t.mileageKm
+      ? { ...t, mileageKm: Math.round(km) }
+      : t;
+  }
+  const department = feed.slice("fitness/".length) as FitnessDepartment;
+  if (!isIsoDate(p.validTill) || !isIsoDate(p.issuedOn)) return t;
+  const cert: FitnessCertificate = {
+    certificateId: String(p.certificateId ?? `${department}-${t.id}`),
+    trainId: t.id,
+    department,
+    issuedOn: new Date(p.issuedOn).toISOString(),
+    validTill: new Date(p.validTill).toISOString(),
+    certifier: String(p.certifier ?? "UNS"),
+    sourceFile: msg.topic,
+    importedAt: msg.ts,
+  };
+  return withCertificates(t, [cert]);
+}
+
+// Apply a batch of messages; returns only the trainsets that changed
+export function applyUnsMessages(
+  trains: Trainset[],
+  messages: UnsMessage[]
+): Trainset[] {
+  const byId = new Map(trains.map((t) => [t.id, t]));
+  const changed = new Map<string, Trainset>();
+  messages.forEach((msg) => {
+    const parsed = parseUnsTopic(msg.topic);
+    const t =
+      parsed && (changed.get(parsed.trainId) ?? byId.get(parsed.trainId));
+    if (!parsed || !t) return;
+    const next = applyOne(t, parsed.feed, msg);
+    if (next !== t) changed.set(t.id, next);
+  });
+  return [...changed.values()];
+}
+
+export type UnsHandlers = {
+  onMessage: (msg: UnsMessage) => void;
+  onStatus: (status: UnsStatus, detail?: string) => void;
+};
+
+export type UnsConnection = { close: () => void };
+
+// Connects and keeps reconnecting with exponential backoff until closed
+export function connectUns(
+  url: string,
+  handlers: UnsHandlers,
+  fleet: () => Trainset[]
+): UnsConnection {
+  if (isMockUns(url)) return mockBroker(handlers, fleet);
+
+  let ws: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  function open() {
+    handlers.onStatus(attempt ? "reconnecting" : "connecting");
+    ws = new WebSocket(url);
+    ws.onopen = () => {
+      attempt = 0;
+      ws?.send(
+        JSON.stringify({ type: "subscribe", topics: UNS_SUBSCRIPTIONS })
+      );
+      handlers.onStatus("open");
+    };
+    ws.onmessage = (e) => {
+      try {
+        const frame = JSON.parse(String(e.data));
+        if (frame?.type === "publish" && typeof frame.topic === "string") {
+          handlers.onMessage({
+            topic: frame.topic,
+            payload: frame.payload,
+            ts: isIsoDate(frame.ts) ? frame.ts : new Date().toISOString(),
+          });
+        }
+      } catch {
+        // not JSON; the UNS only publishes JSON frames
+      }
+    };
+    ws.onclose = () => {
+      if (closed) return;
+      const delay = Math.min(30000, 1000 * 2 ** attempt++);
+      handlers.onStatus(
+        "reconnecting",
+        `retrying in ${Math.round(delay / 1000)}s`
+      );
+      retry = setTimeout(open, delay);
+    };
+  }
+  open();
+
+  return {
+    close() {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      ws?.close();
+      handlers.onStatus("closed");
+    },
+  };
+}
+
+// In-browser stand-in for the UNS broker: renews certificates and advances
+// odometers for random trainsets, cycling through every feed
+function mockBroker(handlers: UnsHandlers, fleet: () => Trainset[]) {
+  const feeds = Object.keys(UNS_FEEDS) as UnsFeed[];
+  const day = 24 * 3600 * 1000;
+  let tick = 0;
+  handlers.onStatus("connecting");
+  const opened = setTimeout(
+    () => handlers.onStatus("open", "mock broker, not applied to the fleet"),
+    300
+  );
+  const timer = setInterval(() => {
+    const trains = fleet();
+    if (!trains.length) return;
+    const t = trains[Math.floor(Math.random() * trains.length)];
+    const feed = feeds[tick++ % feeds.length];
+    const now = Date.now();
+    const payload =
+      feed === "telemetry/odometer"
+        ? { km: t.mileageKm + 5 + Math.round(Math.random() * 35) }
+        : {
+            certificateId: `UNS-${feed.slice(8, 10)}-${t.id.slice(-2)}-${tick}`,
+            issuedOn: new Date(now).toISOString(),
+            validTill: new Date(
+              now + (5 + Math.floor(Math.random() * 25)) * day
+            ).toISOString(),
+            certifier: `${
+              FITNESS_DEPARTMENTS[feed.slice(8) as FitnessDepartment].label
+            } desk (mock)`,
+          };
+    handlers.onMessage({
+      topic: `kmrl/trainset/${t.id}/${feed}`,
+      payload,
+      ts: new Date(now).toISOString(),
+    });
+  }, 1500);
+
+  return {
+    close() {
+      clearTimeout(opened);
+      clearInterval(timer);
+      handlers.onStatus("closed");
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { getAll, put, remove } from "./db";
+import type { MileageModel } from "./mileage";
+import { optimiseInduction, type OptimiserInput } from "./optimiser";
+import { SCORE_COMPONENTS, defaultWeights, rankTrains } from "./scoring";
+import type { Trainset, WeightProfile, Weights } from "./types";
+
+// -------------------------------------------------------------
+// Weight profiles and normalisation. Sliders set relative
+// importance; scoring uses the weights scaled to sum to 1, so a
+// train's score stays in 0..1 whatever the settings. Saved
+// profiles live in IndexedDB "weightProfiles".
+// -------------------------------------------------------------
+
+export const WEIGHT_MAX = 0.5; // slider range is 0..WEIGHT_MAX
+
+export const BUILT_IN_PROFILES: WeightProfile[] = [
+  {
+    id: "default",
+    name: "Default",
+    weights: defaultWeights,
+    createdAt: "",
+    builtIn: true,
+  },
+  {
+    // Waterlogged depots and more door, HVAC and brake faults
+    id: "monsoon",
+    name: "Monsoon",
+    weights: {
+      fitness: 0.3,
+      jobs: 0.3,
+      mileage: 0.1,
+      branding: 0.05,
+      cleaning: 0.1,
+      stabling: 0.15,
+    },
+    createdAt: "",
+    builtIn: true,
+  },
+  {
+    // Every fit rake out, clean and on time
+    id: "festival-rush",
+    name: "Festival rush",
+    weights: {
+      fitness: 0.3,
+      jobs: 0.2,
+      mileage: 0.1,
+      branding: 0.1,
+      cleaning: 0.2,
+      stabling: 0.1,
+    },
+    createdAt: "",
+    builtIn: true,
+  },
+  {
+    // Advertisers check exposure hours this week
+    id: "branding-audit",
+    name: "Branding audit week",
+    weights: {
+      fitness: 0.3,
+      jobs: 0.15,
+      mileage: 0.1,
+      branding: 0.3,
+      cleaning: 0.1,
+      stabling: 0.05,
+    },
+    createdAt: "",
+    builtIn: true,
+  },
+];
+
+export function weightSum(w: Weights) {
+  return (Object.keys(SCORE_COMPONENTS) as (keyof Weights)[]).reduce(
+    (sum, k) => sum + w[k],
+    0
+  );
+}
+
+// Scaled to sum to 1; all-zero weights are left as they are
+export function normaliseWeights(w: Weights): Weights {
+  const sum = weightSum(w);
+  if (!sum) return w;
+  return Object.fromEntries(
+    Object.entries(w).map(([k, v]) => [k, v / sum])
+  ) as Weights;
+}
+
+// The weights scoring uses: branding dropped when not respected, then normalised
+export function scoringWeights(w: Weights, respectBranding: boolean) {
+  return normaliseWeights(respectBranding ? w : { ...w, branding: 0 });
+}
+
+export function sameWeights(a: Weights, b: Weights) {
+  return (Object.keys(SCORE_COMPONENTS) as (keyof Weights)[]).every(
+    (k) => Math.abs(a[k] - b[k]) < 1e-9
+  );
+}
+
+// Slider changes tried per weight, before normalisation
+export const SENSITIVITY_STEPS = [-0.1, -0.05, 0.05, 0.1];
+
+// Small budget: two dozen re-plans per pass
+const SENSITIVITY_NODE_BUDGET = 2000;
+
+export type SensitivityInput = {
+  trains: Trainset[];
+  weights: Weights; // slider values
+  mileage: MileageModel;
+  cleanAtDawn: string[]; // ids clean for service; tonight's slots held fixed
+  optimiser: OptimiserInput; // everything but the ranking is reused
+};
+
+export type SensitivityCell = {
+  delta: number;
+  weight: number; // slider value tried, clamped to 0..WEIGHT_MAX
+  flipped: string[]; // trains whose decision differs from the current weights
+};
+
+export type SensitivityRow = {
+  key: keyof Weights;
+  cells: SensitivityCell[];
+};
+
+// How many induction decisions change as each weight moves on its own
+export function weightSensitivity(input: SensitivityInput): SensitivityRow[] {
+  const clean = new Set(input.cleanAtDawn);
+  const decide = (w: Weights) => {
+    const ranked = rankTrains(
+      input.trains,
+      scoringWeights(w, input.optimiser.respectBranding),
+      input.mileage,
+      (t) => clean.has(t.id)
+    );
+    const plan = optimiseInduction(
+      { ...input.optimiser, ranked },
+      { nodeBudget: SENSITIVITY_NODE_BUDGET }
+    );
+    return plan.decisions;
+  };
+  const base = decide(input.weights);
+  return (Object.keys(SCORE_COMPONENTS) as (keyof Weights)[]).map((key) => ({
+    key,
+    cells: SENSITIVITY_STEPS.map((delta) => {
+      const weight = Math.min(
+        WEIGHT_MAX,
+        Math.max(0, Number((input.weights[key] + delta).toFixed(2)))
+      );
+      const decisions =
+        weight === input.weights[key]
+          ? base
+          : decide({ ...input.weights, [key]: weight });
+      return {
+        delta,
+        weight,
+        flipped: Object.keys(base).filter((id) => decisions[id] !== base[id]),
+      };
+    }),
+  }));
+}
+
+// Saved profiles, by name
+export async function loadWeightProfiles(): Promise<WeightProfile[]> {
+  const all = await getAll<WeightProfile>("weightProfiles");
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function saveWeightProfile(p: WeightProfile) {
+  return put("weightProfiles", p);
+}
+
+export function deleteWeightProfile(id: string) {
+  return remove("weightProfiles", id);
+}
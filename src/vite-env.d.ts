@@ -1 +1,22 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // ws(s):// UNS broker, or mock://uns (display only); unset means no live feed
+  readonly VITE_UNS_URL?: string;
+  // Sync adapter sources (URL, static file path or mock://); unset means
+  // not configured
+  readonly VITE_SYNC_MAXIMO_URL?: string;
+  readonly VITE_SYNC_BRANDING_URL?: string;
+  readonly VITE_SYNC_CLEANING_URL?: string;
+  readonly VITE_SYNC_FITNESS_URL?: string;
+  // Map layer: mapbox | custom | schematic (default picked from what is set)
+  readonly VITE_MAP_PROVIDER?: string;
+  readonly VITE_MAPBOX_TOKEN?: string;
+  readonly VITE_MAP_STYLE_URL?: string; // self-hosted style JSON
+  readonly VITE_MAP_TILES_URL?: string; // self-hosted raster tiles {z}/{x}/{y}
+  readonly VITE_MAP_GLYPHS_URL?: string;
+  // SSO gateway serving /me, /login and /logout; unset means no sign-in
+  // (mock sign-in in dev)
+  readonly VITE_AUTH_URL?: string;
+  readonly VITE_AUTH_MOCK?: string; // "true" enables mock sign-in outside dev
+}